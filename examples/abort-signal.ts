@@ -8,7 +8,7 @@
  */
 
 import { generateText, streamText } from 'ai';
-import { amp } from '../dist/index.js';
+import { amp, getErrorMetadata } from '../dist/index.js';
 
 function isAbortError(error: any): boolean {
   const name = typeof error?.name === 'string' ? error.name : '';
@@ -52,6 +52,13 @@ async function main() {
   } catch (error: any) {
     if (isAbortError(error)) {
       console.log('   ✅ Request successfully cancelled');
+
+      // The interrupted thread can be picked up later with the `resume` setting
+      const metadata = getErrorMetadata(error);
+      if (metadata?.sessionId) {
+        console.log(`   💡 Resume with: amp('default', { resume: '${metadata.sessionId}' })`);
+        console.log(`   Partial text: ${metadata.partialText?.length ?? 0} characters`);
+      }
     } else {
       console.error('   ❌ Error:', error.message);
     }
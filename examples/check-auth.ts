@@ -6,11 +6,24 @@
  */
 
 import { generateText } from 'ai';
-import { amp } from '../dist/index.js';
+import { amp, checkAmpHealth, isAmpError } from '../dist/index.js';
 
 async function checkSetup() {
   console.log('🔍 Checking Amp CLI setup...\n');
 
+  // Check the CLI and credentials without calling the model
+  const health = await checkAmpHealth();
+  console.log(
+    'Amp CLI:',
+    health.cli.found ? `found (${health.cli.version})` : `missing - ${health.cli.error}`
+  );
+  console.log('Credentials:', health.credentials.source);
+  if (!health.ok) {
+    console.log('\n⚠️  Preflight check found problems:');
+    health.problems.forEach((problem) => console.log(`   - ${problem}`));
+  }
+  console.log();
+
   try {
     // Try a simple generation to verify everything works
     console.log('Testing Amp SDK connection...');
@@ -45,15 +58,11 @@ async function checkSetup() {
     console.error('❌ Failed to connect to Amp');
     console.error('Error:', error.message);
 
-    if (error.message?.includes('not found') || error.message?.includes('ENOENT')) {
+    if (isAmpError(error, 'cli-not-found')) {
       console.log('\n💡 Make sure Amp CLI is installed:');
       console.log('   npm install -g @sourcegraph/amp');
       console.log('   Or use npx: npx @sourcegraph/amp');
-    } else if (
-      error.message?.includes('authentication') ||
-      error.message?.includes('unauthorized') ||
-      error.message?.includes('login')
-    ) {
+    } else if (isAmpError(error, 'authentication')) {
       console.log('\n🔐 Authentication required. Choose one:');
       console.log('   Option 1 (Recommended): amp login');
       console.log('   Option 2: export AMP_API_KEY=sgamp_your_key_here');
@@ -8,7 +8,7 @@
  */
 
 import { generateText } from 'ai';
-import { amp, createAmp } from '../dist/index.js';
+import { amp, createAmp, isAmpError } from '../dist/index.js';
 
 async function main() {
   console.log('🔍 Testing error handling patterns\n');
@@ -71,10 +71,10 @@ async function main() {
     console.error('   ❌ API error:', error.message);
 
     // Check for specific error types
-    if (error.message?.includes('authentication') || error.message?.includes('unauthorized')) {
+    if (isAmpError(error, 'authentication')) {
       console.log('\n   💡 Authentication error detected');
       console.log('   Fix: Run "amp login" or set AMP_API_KEY');
-    } else if (error.message?.includes('not found') || error.message?.includes('ENOENT')) {
+    } else if (isAmpError(error, 'cli-not-found')) {
       console.log('\n   💡 CLI not found error detected');
       console.log('   Fix: Install Amp CLI with "npm install -g @sourcegraph/amp"');
     } else {
@@ -1,11 +1,53 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { APICallError, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import type { StreamMessage } from '@sourcegraph/amp-sdk';
 import { AmpLanguageModel } from './amp-language-model.js';
+import { createAmp } from './amp-provider.js';
+import {
+  AmpCliNotFoundError,
+  getErrorMetadata,
+  isAmpError,
+  isTimeoutError,
+} from './errors.js';
+import { DEFAULT_CONTINUE_PROMPT } from './retry.js';
+import { createMemorySessionStore } from './session-store.js';
+import { loadTranscript, readTranscript } from './transcript.js';
 
 // Mock the Amp SDK execute function
 vi.mock('@sourcegraph/amp-sdk', () => ({
   execute: vi.fn(),
 }));
 
+// A successful Amp run on thread `sessionId`: init, then `messages`, then the result once `gate` settles
+const run = (
+  sessionId: string,
+  { gate, messages = [] }: { gate?: Promise<void>; messages?: StreamMessage[] } = {}
+) =>
+  (async function* () {
+    yield {
+      type: 'system' as const,
+      subtype: 'init' as const,
+      session_id: sessionId,
+      cwd: '/test',
+      tools: [],
+      mcp_servers: [],
+    };
+    yield* messages;
+    await gate;
+    yield {
+      type: 'result' as const,
+      subtype: 'success' as const,
+      session_id: sessionId,
+      is_error: false as const,
+      result: 'done',
+      duration_ms: 10,
+      num_turns: 1,
+    };
+  })();
+
 describe('AmpLanguageModel', () => {
   describe('session management', () => {
     it('should map resume setting to continue parameter (string)', async () => {
@@ -269,4 +311,2429 @@ describe('AmpLanguageModel', () => {
       }
     });
   });
+
+  describe('doStream tool calls', () => {
+    it('should emit provider-executed tool call parts for tool_use blocks', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: {},
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+
+      mockExecute.mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'system' as const,
+            subtype: 'init' as const,
+            session_id: 'T-test-session',
+            cwd: '/test',
+            tools: [],
+            mcp_servers: [],
+          };
+          yield {
+            type: 'assistant' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              id: 'msg-1',
+              type: 'message' as const,
+              role: 'assistant' as const,
+              model: 'test-model',
+              stop_reason: 'tool_use' as const,
+              stop_sequence: null,
+              content: [
+                { type: 'text' as const, text: 'Reading the file.' },
+                {
+                  type: 'tool_use' as const,
+                  id: 'toolu_123',
+                  name: 'Read',
+                  input: { path: 'README.md' },
+                },
+              ],
+            },
+          };
+          yield {
+            type: 'result' as const,
+            subtype: 'success' as const,
+            session_id: 'T-test-session',
+            is_error: false as const,
+            result: 'done',
+            duration_ms: 100,
+            num_turns: 1,
+          };
+        })()
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const types = parts.map((part) => part.type);
+      expect(types).toEqual([
+        'stream-start',
+        'response-metadata',
+        'text-start',
+        'text-delta',
+        'text-end',
+        'tool-input-start',
+        'tool-input-delta',
+        'tool-input-end',
+        'tool-call',
+        'finish',
+      ]);
+
+      expect(parts).toContainEqual({
+        type: 'tool-input-start',
+        id: 'toolu_123',
+        toolName: 'Read',
+        providerExecuted: true,
+      });
+      expect(parts).toContainEqual({
+        type: 'tool-call',
+        toolCallId: 'toolu_123',
+        toolName: 'Read',
+        input: JSON.stringify({ path: 'README.md' }),
+        providerExecuted: true,
+      });
+    });
+  });
+
+  describe('tool results', () => {
+    const toolRunMessages = () =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            content: [
+              {
+                type: 'tool_use' as const,
+                id: 'toolu_123',
+                name: 'Bash',
+                input: { cmd: 'ls' },
+              },
+            ],
+          },
+        };
+        yield {
+          type: 'user' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            role: 'user' as const,
+            content: [
+              {
+                type: 'tool_result' as const,
+                tool_use_id: 'toolu_123',
+                content: 'command not found',
+                is_error: true,
+              },
+            ],
+          },
+        };
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'done',
+          duration_ms: 100,
+          num_turns: 1,
+        };
+      })();
+
+    const expectedToolResult = {
+      type: 'tool-result',
+      toolCallId: 'toolu_123',
+      toolName: 'Bash',
+      result: 'command not found',
+      isError: true,
+      providerExecuted: true,
+    };
+
+    it('should return tool calls and tool results from doGenerate', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(toolRunMessages());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.content).toContainEqual({
+        type: 'tool-call',
+        toolCallId: 'toolu_123',
+        toolName: 'Bash',
+        input: JSON.stringify({ cmd: 'ls' }),
+        providerExecuted: true,
+      });
+      expect(result.content).toContainEqual(expectedToolResult);
+    });
+
+    it('should emit tool-result stream parts from doStream', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(toolRunMessages());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const types = parts.map((part) => part.type);
+      expect(types.indexOf('tool-result')).toBeGreaterThan(types.indexOf('tool-call'));
+      expect(parts).toContainEqual(expectedToolResult);
+    });
+  });
+
+  describe('doGenerate content', () => {
+    const assistantTurn = (
+      id: string,
+      content: Array<
+        | { type: 'text'; text: string }
+        | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+      >
+    ) => ({
+      type: 'assistant' as const,
+      session_id: 'T-test-session',
+      parent_tool_use_id: null,
+      message: {
+        id,
+        type: 'message' as const,
+        role: 'assistant' as const,
+        model: 'test-model',
+        stop_reason: null,
+        stop_sequence: null,
+        content,
+      },
+    });
+
+    const successResult = {
+      type: 'result' as const,
+      subtype: 'success' as const,
+      session_id: 'T-test-session',
+      is_error: false as const,
+      result: 'done',
+      duration_ms: 100,
+      num_turns: 2,
+    };
+
+    it('should keep text, tool calls and tool results in run order', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield assistantTurn('msg-1', [
+            { type: 'text', text: 'Let me look.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { path: 'a.ts' } },
+          ]);
+          yield {
+            type: 'user' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              role: 'user' as const,
+              content: [
+                {
+                  type: 'tool_result' as const,
+                  tool_use_id: 'toolu_1',
+                  content: 'export {}',
+                  is_error: false,
+                },
+              ],
+            },
+          };
+          yield assistantTurn('msg-2', [{ type: 'text', text: 'The file is empty.' }]);
+          yield successResult;
+        })()
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.content.map((part) => part.type)).toEqual([
+        'text',
+        'tool-call',
+        'tool-result',
+        'text',
+      ]);
+      expect(result.content[0]).toEqual({ type: 'text', text: 'Let me look.' });
+      expect(result.content[3]).toEqual({ type: 'text', text: 'The file is empty.' });
+    });
+
+    it('should collapse text into a single JSON part in JSON mode', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield assistantTurn('msg-1', [
+            { type: 'text', text: 'Here you go:' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} },
+          ]);
+          yield assistantTurn('msg-2', [{ type: 'text', text: '```json\n{"ok":true}\n```' }]);
+          yield successResult;
+        })()
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        responseFormat: { type: 'json' },
+      });
+
+      expect(result.content.filter((part) => part.type === 'text')).toEqual([
+        { type: 'text', text: '{"ok":true}' },
+      ]);
+      expect(result.content.some((part) => part.type === 'tool-call')).toBe(true);
+    });
+  });
+
+  describe('reasoning', () => {
+    const thinkingRun = () =>
+      (async function* () {
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'end_turn' as const,
+            stop_sequence: null,
+            content: [
+              { type: 'thinking', thinking: 'The user wants a greeting.' },
+              { type: 'text' as const, text: 'Hello!' },
+            ] as never,
+          },
+        };
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'Hello!',
+          duration_ms: 100,
+          num_turns: 1,
+        };
+      })();
+
+    it('should return reasoning content from doGenerate', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(thinkingRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.content).toEqual([
+        { type: 'reasoning', text: 'The user wants a greeting.' },
+        { type: 'text', text: 'Hello!' },
+      ]);
+    });
+
+    it('should emit reasoning stream parts from doStream', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(thinkingRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.map((part) => part.type)).toEqual([
+        'stream-start',
+        'reasoning-start',
+        'reasoning-delta',
+        'reasoning-end',
+        'text-start',
+        'text-delta',
+        'text-end',
+        'finish',
+      ]);
+      expect(parts[2]).toMatchObject({ delta: 'The user wants a greeting.' });
+    });
+
+    it('should drop reasoning when includeReasoning is false', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { includeReasoning: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(thinkingRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'Hello!' }]);
+    });
+  });
+
+  describe('doStream JSON mode', () => {
+    it('should stream the JSON payload before the result message arrives', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      let releaseResult: () => void = () => {};
+      const resultGate = new Promise<void>((resolve) => {
+        releaseResult = resolve;
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'assistant' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              id: 'msg-1',
+              type: 'message' as const,
+              role: 'assistant' as const,
+              model: 'test-model',
+              stop_reason: 'end_turn' as const,
+              stop_sequence: null,
+              content: [{ type: 'text' as const, text: 'Here it is:\n```json\n{"name":"Ada"}\n```' }],
+            },
+          };
+          await resultGate;
+          yield {
+            type: 'result' as const,
+            subtype: 'success' as const,
+            session_id: 'T-test-session',
+            is_error: false as const,
+            result: 'done',
+            duration_ms: 100,
+            num_turns: 1,
+          };
+        })()
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        responseFormat: { type: 'json' },
+      });
+
+      const reader = stream.getReader();
+      const parts: LanguageModelV2StreamPart[] = [];
+      while (!parts.some((part) => part.type === 'text-delta')) {
+        const { value } = await reader.read();
+        parts.push(value!);
+      }
+      expect(parts.at(-1)).toMatchObject({ type: 'text-delta', delta: '{"name":"Ada"}' });
+
+      releaseResult();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const text = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => (part as { delta: string }).delta)
+        .join('');
+      expect(text).toBe('{"name":"Ada"}');
+      expect(parts.map((part) => part.type)).toEqual([
+        'stream-start',
+        'text-start',
+        'text-delta',
+        'text-end',
+        'finish',
+      ]);
+    });
+
+    const jsonTurn = (id: string, text: string, stopReason: 'end_turn' | 'tool_use') => ({
+      type: 'assistant' as const,
+      session_id: 'T-test-session',
+      parent_tool_use_id: null,
+      message: {
+        id,
+        type: 'message' as const,
+        role: 'assistant' as const,
+        model: 'test-model',
+        stop_reason: stopReason,
+        stop_sequence: null,
+        content: [{ type: 'text' as const, text }],
+      },
+    });
+    const jsonRun = (turns: ReturnType<typeof jsonTurn>[]) =>
+      (async function* () {
+        yield* turns;
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'done',
+          duration_ms: 100,
+          num_turns: turns.length,
+        };
+      })();
+    const readParts = async (stream: ReadableStream<LanguageModelV2StreamPart>) => {
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return parts;
+        parts.push(value);
+      }
+    };
+
+    it('should stream the same JSON as doGenerate when an earlier turn printed JSON', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+      const turns = [
+        jsonTurn('msg-1', 'Current config:\n{"a": 1}\n', 'tool_use'),
+        jsonTurn('msg-2', '```json\n{"name":"x"}\n```', 'end_turn'),
+      ];
+      const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'test' }] }];
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValueOnce(jsonRun(turns)).mockReturnValueOnce(jsonRun(turns));
+
+      const generated = await model.doGenerate({ prompt, responseFormat: { type: 'json' } });
+      const { stream } = await model.doStream({ prompt, responseFormat: { type: 'json' } });
+      const parts = await readParts(stream);
+
+      const streamed = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => part.delta)
+        .join('');
+      expect(generated.content).toEqual([{ type: 'text', text: '{"name":"x"}' }]);
+      expect(streamed).toBe('{"name":"x"}');
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+    });
+
+    it('should emit an error part when JSON already streamed differs from the final extraction', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        jsonRun([
+          jsonTurn('msg-1', 'Current config:\n{"debug":false}\n', 'end_turn'),
+          jsonTurn('msg-2', 'Updated config:\n{"debug":true}', 'end_turn'),
+        ])
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        responseFormat: { type: 'json' },
+      });
+      const parts = await readParts(stream);
+
+      const error = parts.find((part) => part.type === 'error') as { error: unknown } | undefined;
+      expect(isAmpError(error?.error, 'execution')).toBe(true);
+      expect(parts.at(-1)).toMatchObject({ type: 'finish', finishReason: 'stop' });
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[amp-sdk] Failed to extract valid JSON from response'
+      );
+    });
+  });
+
+  describe('doStream cancellation', () => {
+    it('should abort the Amp execution and close the iterator when the consumer cancels', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      let finalized = false;
+      let pulledMessages = 0;
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockImplementation(() =>
+        (async function* () {
+          try {
+            for (let turn = 0; ; turn++) {
+              pulledMessages++;
+              yield {
+                type: 'assistant' as const,
+                session_id: 'T-test-session',
+                parent_tool_use_id: null,
+                message: {
+                  id: `msg-${turn}`,
+                  type: 'message' as const,
+                  role: 'assistant' as const,
+                  model: 'test-model',
+                  stop_reason: null,
+                  stop_sequence: null,
+                  content: [{ type: 'text' as const, text: `turn ${turn} ` }],
+                },
+              };
+            }
+          } finally {
+            finalized = true;
+          }
+        })()
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const reader = stream.getReader();
+      await reader.read(); // stream-start
+      await reader.read(); // text-start
+      await reader.read(); // text-delta
+
+      // Messages are pulled on demand, not drained ahead of the consumer
+      expect(pulledMessages).toBeLessThanOrEqual(2);
+
+      await reader.cancel();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const { signal } = mockExecute.mock.lastCall![0];
+      expect(signal?.aborted).toBe(true);
+      expect(finalized).toBe(true);
+    });
+
+    it('should not start the Amp execution before the stream is read', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockClear();
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+      await stream.cancel();
+
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it('should not log an error when cancelled while waiting on Amp', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockImplementation(({ signal }) =>
+        (async function* () {
+          yield {
+            type: 'system' as const,
+            subtype: 'init' as const,
+            session_id: 'T-test-session',
+            cwd: '/test',
+            tools: [],
+            mcp_servers: [],
+          };
+          // Mirrors the SDK, which fails once the CLI process is killed
+          await new Promise((_, reject) => {
+            signal?.addEventListener('abort', () => reject(new Error('Amp execution was aborted')));
+          });
+        })()
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const reader = stream.getReader();
+      await reader.read(); // stream-start
+      await reader.read(); // response-metadata
+      const pending = reader.read();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await reader.cancel();
+      expect(await pending).toEqual({ done: true, value: undefined });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('doStream raw chunks', () => {
+    const rawRunMessages = [
+      {
+        type: 'system' as const,
+        subtype: 'init' as const,
+        session_id: 'T-test-session',
+        cwd: '/test',
+        tools: [],
+        mcp_servers: [],
+      },
+      {
+        type: 'assistant' as const,
+        session_id: 'T-test-session',
+        parent_tool_use_id: null,
+        message: {
+          id: 'msg-1',
+          type: 'message' as const,
+          role: 'assistant' as const,
+          model: 'test-model',
+          stop_reason: 'end_turn' as const,
+          stop_sequence: null,
+          content: [{ type: 'text' as const, text: 'Hello' }],
+        },
+      },
+      {
+        type: 'result' as const,
+        subtype: 'success' as const,
+        session_id: 'T-test-session',
+        is_error: false as const,
+        result: 'Hello',
+        duration_ms: 100,
+        num_turns: 1,
+      },
+    ];
+
+    const readParts = async (includeRawChunks?: boolean) => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield* rawRunMessages;
+        })()
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        includeRawChunks,
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+      return parts;
+    };
+
+    it('should emit every Amp message as a raw part in order when includeRawChunks is set', async () => {
+      const parts = await readParts(true);
+
+      const rawValues = parts
+        .filter((part) => part.type === 'raw')
+        .map((part) => (part as { rawValue: unknown }).rawValue);
+      expect(rawValues).toEqual(rawRunMessages);
+
+      // Each raw part precedes the parts derived from the same message
+      const types = parts.map((part) => part.type);
+      expect(types.indexOf('raw')).toBeLessThan(types.indexOf('response-metadata'));
+      expect(types.lastIndexOf('raw')).toBeLessThan(types.indexOf('finish'));
+    });
+
+    it('should not emit raw parts by default', async () => {
+      const parts = await readParts();
+      expect(parts.some((part) => part.type === 'raw')).toBe(false);
+    });
+  });
+
+  describe('maxTurns enforcement', () => {
+    const endlessRun = () =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        for (let turn = 1; ; turn++) {
+          yield {
+            type: 'assistant' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              id: `msg-${turn}`,
+              type: 'message' as const,
+              role: 'assistant' as const,
+              model: 'test-model',
+              stop_reason: 'tool_use' as const,
+              stop_sequence: null,
+              content: [{ type: 'text' as const, text: `turn ${turn}. ` }],
+              usage: { input_tokens: 10, output_tokens: 5 },
+            },
+          };
+        }
+      })();
+
+    it('should stop doGenerate after maxTurns with a length finish reason', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { maxTurns: 2, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReturnValue(endlessRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.finishReason).toBe('length');
+      expect(result.content).toEqual([
+        { type: 'text', text: 'turn 1. ' },
+        { type: 'text', text: 'turn 2. ' },
+      ]);
+      expect(result.providerMetadata?.['amp-sdk']).toMatchObject({
+        sessionId: 'T-test-session',
+        numTurns: 2,
+      });
+      // The third turn is dropped, but its tokens were spent
+      expect(result.usage).toMatchObject({ inputTokens: 30, outputTokens: 15 });
+      expect(result.providerMetadata?.['amp-sdk'].turnUsage).toHaveLength(3);
+      expect(mockExecute.mock.lastCall![0].signal?.aborted).toBe(true);
+    });
+
+    it('should stop doStream after maxTurns with a length finish reason', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { maxTurns: 1, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReturnValue(endlessRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const deltas = parts.filter((part) => part.type === 'text-delta');
+      expect(deltas).toHaveLength(1);
+      expect(parts.at(-2)).toMatchObject({ type: 'text-end' });
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: 'length',
+        usage: { inputTokens: 20, outputTokens: 10 },
+        providerMetadata: { 'amp-sdk': { sessionId: 'T-test-session', numTurns: 1 } },
+      });
+      expect(mockExecute.mock.lastCall![0].signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('per-call provider options', () => {
+    const successRun = () =>
+      (async function* () {
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'done',
+          duration_ms: 100,
+          num_turns: 1,
+        };
+      })();
+
+    it('should merge providerOptions over instance settings for one call only', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { cwd: '/default', dangerouslyAllowAll: true },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockImplementation(() => successRun());
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        providerOptions: { 'amp-sdk': { cwd: '/tenant-a', resume: 'T-tenant-a' } },
+      });
+
+      expect(mockExecute.mock.lastCall![0].options).toMatchObject({
+        cwd: '/tenant-a',
+        continue: 'T-tenant-a',
+        dangerouslyAllowAll: true,
+      });
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(mockExecute.mock.lastCall![0].options).toMatchObject({
+        cwd: '/default',
+        continue: undefined,
+      });
+    });
+
+    it('should apply providerOptions in doStream', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockImplementation(() => successRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        providerOptions: { 'amp-sdk': { cwd: '/tenant-b' } },
+      });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      expect(mockExecute.mock.lastCall![0].options).toMatchObject({ cwd: '/tenant-b' });
+    });
+
+    it('should reject invalid providerOptions', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      await expect(
+        model.doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+          providerOptions: { 'amp-sdk': { maxTurns: 0 } },
+        })
+      ).rejects.toThrow("Invalid providerOptions['amp-sdk']: maxTurns must be a positive integer");
+    });
+
+    it('should warn when logging settings are passed per call', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: {} });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockImplementation(() => successRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        providerOptions: { 'amp-sdk': { verbose: true } },
+      });
+
+      expect(result.warnings).toContainEqual({
+        type: 'other',
+        message:
+          "logger and verbose cannot be overridden per call and are ignored in providerOptions['amp-sdk']",
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    const stalledRun = (signal?: AbortSignal) =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            content: [{ type: 'text' as const, text: 'working...' }],
+          },
+        };
+        // Hang until the provider aborts execution
+        await new Promise((_, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      })();
+
+    it('should throw a retryable timeout error from doGenerate when idle', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { idleTimeoutMs: 20, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockImplementation(({ signal }) => stalledRun(signal));
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+        .catch((e: unknown) => e);
+
+      expect(isTimeoutError(error)).toBe(true);
+      expect((error as APICallError).isRetryable).toBe(true);
+      expect((error as Error).message).toContain('idle timeout');
+      expect(getErrorMetadata(error)).toMatchObject({
+        sessionId: 'T-test-session',
+        numTurns: 1,
+      });
+      expect(mockExecute.mock.lastCall![0].signal?.aborted).toBe(true);
+    });
+
+    it('should emit a timeout error part from doStream after the wall-clock limit', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { timeoutMs: 20, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockImplementation(({ signal }) => stalledRun(signal));
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const errorPart = parts.at(-1);
+      expect(errorPart?.type).toBe('error');
+      const error = (errorPart as { error: unknown }).error;
+      expect(isTimeoutError(error)).toBe(true);
+      expect((error as APICallError).isRetryable).toBe(true);
+      expect((error as Error).message).toContain('exceeded 20ms');
+      expect(getErrorMetadata(error)).toMatchObject({
+        sessionId: 'T-test-session',
+        numTurns: 1,
+      });
+      expect(mockExecute.mock.lastCall![0].signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('error results', () => {
+    const failedRun = (subtype: 'error_during_execution' | 'error_max_turns') =>
+      (async function* () {
+        yield {
+          type: 'result' as const,
+          subtype,
+          session_id: 'T-test-session',
+          is_error: true as const,
+          error: 'run failed',
+          duration_ms: 50,
+          num_turns: 4,
+        };
+      })();
+
+    it('should throw an AmpMaxTurnsError for error_max_turns results when opted in', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { throwOnMaxTurns: true, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(failedRun('error_max_turns'));
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+        .catch((e: unknown) => e);
+
+      expect(isAmpError(error, 'max-turns')).toBe(true);
+      expect(getErrorMetadata(error)).toMatchObject({
+        sessionId: 'T-test-session',
+        numTurns: 4,
+        durationMs: 50,
+      });
+    });
+
+    it('should emit an AmpExecutionError part for failed stream results', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(failedRun('error_during_execution'));
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const error = (parts.at(-1) as { error: unknown }).error;
+      expect(isAmpError(error, 'execution')).toBe(true);
+      expect(getErrorMetadata(error)).toMatchObject({
+        originalError: 'run failed',
+        sessionId: 'T-test-session',
+      });
+    });
+  });
+
+  describe('caller aborts', () => {
+    const abortableRun = (controller: AbortController, signal?: AbortSignal) =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            content: [{ type: 'text' as const, text: 'Partial answer' }],
+          },
+        };
+        controller.abort();
+        // Mirrors the SDK, which fails once the CLI process is killed
+        if (signal?.aborted) {
+          throw new Error('Amp CLI process was aborted');
+        }
+      })();
+
+    it('should throw an AbortError from doGenerate that keeps the progress', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger } });
+      const controller = new AbortController();
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockImplementation(({ signal }) => abortableRun(controller, signal));
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+          abortSignal: controller.signal,
+        })
+        .catch((e: unknown) => e);
+
+      expect((error as Error).name).toBe('AbortError');
+      expect(isAmpError(error, 'aborted')).toBe(true);
+      expect(getErrorMetadata(error)).toEqual({
+        sessionId: 'T-test-session',
+        numTurns: 1,
+        lastAssistantText: 'Partial answer',
+        partialText: 'Partial answer',
+      });
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should emit an AbortError part from doStream that keeps the progress', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger } });
+      const controller = new AbortController();
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockImplementation(({ signal }) => abortableRun(controller, signal));
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        abortSignal: controller.signal,
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const error = (parts.at(-1) as { error: unknown }).error;
+      expect((error as Error).name).toBe('AbortError');
+      expect(getErrorMetadata(error)).toEqual({
+        sessionId: 'T-test-session',
+        numTurns: 1,
+        lastAssistantText: 'Partial answer',
+        partialText: 'Partial answer',
+      });
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Amp turn limit', () => {
+    const turnLimitRun = () =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            content: [{ type: 'text' as const, text: 'Halfway there' }],
+          },
+        };
+        yield {
+          type: 'result' as const,
+          subtype: 'error_max_turns' as const,
+          session_id: 'T-test-session',
+          is_error: true as const,
+          error: 'Maximum turns reached',
+          duration_ms: 80,
+          num_turns: 3,
+          usage: { input_tokens: 10, output_tokens: 5 },
+        };
+      })();
+
+    it('should return partial output from doGenerate with a length finish reason', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(turnLimitRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.finishReason).toBe('length');
+      expect(result.content).toEqual([{ type: 'text', text: 'Halfway there' }]);
+      expect(result.usage).toMatchObject({ inputTokens: 10, outputTokens: 5 });
+      expect(result.providerMetadata?.['amp-sdk']).toMatchObject({
+        sessionId: 'T-test-session',
+        numTurns: 3,
+      });
+    });
+
+    it('should finish doStream with a length finish reason', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(turnLimitRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+      expect(parts.find((part) => part.type === 'text-delta')).toMatchObject({
+        delta: 'Halfway there',
+      });
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: 'length',
+        providerMetadata: { 'amp-sdk': { sessionId: 'T-test-session', numTurns: 3 } },
+      });
+    });
+  });
+
+  describe('retry policy', () => {
+    const interruptedRun = () =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            content: [{ type: 'text' as const, text: 'Edited the file. ' }],
+          },
+        };
+        throw new Error('Amp CLI process was killed by signal SIGKILL');
+      })();
+
+    const resumedRun = () =>
+      (async function* () {
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          parent_tool_use_id: null,
+          message: {
+            id: 'msg-2',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'test-model',
+            stop_reason: 'end_turn' as const,
+            stop_sequence: null,
+            content: [{ type: 'text' as const, text: 'Ran the tests.' }],
+          },
+        };
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'Ran the tests.',
+          duration_ms: 100,
+          num_turns: 1,
+        };
+      })();
+
+    const expectedAttempts = [
+      {
+        attempt: 1,
+        error: 'Amp CLI process was killed by signal SIGKILL',
+        errorKind: 'execution',
+        delayMs: 0,
+      },
+      { attempt: 2, resumedSessionId: 'T-test-session' },
+    ];
+
+    it('should continue the interrupted thread in doGenerate', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { retry: { initialDelayMs: 0 }, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(interruptedRun()).mockReturnValueOnce(resumedRun());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      const resumed = mockExecute.mock.calls[1][0];
+      expect(resumed.prompt).toBe(DEFAULT_CONTINUE_PROMPT);
+      expect(resumed.options?.continue).toBe('T-test-session');
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Edited the file. ' },
+        { type: 'text', text: 'Ran the tests.' },
+      ]);
+      expect(result.finishReason).toBe('stop');
+      expect(result.providerMetadata?.['amp-sdk'].attempts).toEqual(expectedAttempts);
+    });
+
+    it('should continue the interrupted thread in doStream', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { retry: { initialDelayMs: 0 }, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(interruptedRun()).mockReturnValueOnce(resumedRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-test-session');
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+      expect(
+        parts.filter((part) => part.type === 'text-delta').map((part) => part.delta)
+      ).toEqual(['Edited the file. ', 'Ran the tests.']);
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: 'stop',
+        providerMetadata: { 'amp-sdk': { attempts: expectedAttempts } },
+      });
+    });
+
+    it('should only warn about attempts that are retried', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { retry: { initialDelayMs: 0 }, logger },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute
+        .mockReturnValueOnce(interruptedRun())
+        .mockReturnValueOnce(resumedRun())
+        .mockReturnValueOnce(interruptedRun())
+        .mockReturnValueOnce(resumedRun());
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done);
+
+      expect(mockExecute).toHaveBeenCalledTimes(4);
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying in 0ms'));
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should log the error a call ends with', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { retry: { maxAttempts: 2, initialDelayMs: 0 }, logger },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockImplementation(() => interruptedRun());
+
+      await expect(
+        model.doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+      ).rejects.toThrow('killed by signal');
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        '[amp-sdk] Error occurred: Amp CLI process was killed by signal SIGKILL'
+      );
+    });
+
+    it('should throw once attempts are exhausted', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { retry: { maxAttempts: 2, initialDelayMs: 0 }, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockImplementation(() => interruptedRun());
+
+      await expect(
+        model.doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+      ).rejects.toThrow('killed by signal');
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('preflight', () => {
+    it('should fail fast without spawning Amp when the check fails', async () => {
+      const preflight = vi
+        .fn()
+        .mockRejectedValue(new AmpCliNotFoundError({ message: 'Amp CLI not found' }));
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { preflight: true, logger: false },
+        preflight,
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+
+      await expect(
+        model.doStream({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+      ).rejects.toThrow('Amp CLI not found');
+      expect(preflight).toHaveBeenCalledWith(expect.objectContaining({ preflight: true }));
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it('should skip the check unless enabled', async () => {
+      const preflight = vi.fn().mockResolvedValue(undefined);
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { logger: false },
+        preflight,
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'result' as const,
+            subtype: 'success' as const,
+            session_id: 'T-test-session',
+            is_error: false as const,
+            result: 'done',
+            duration_ms: 1,
+            num_turns: 1,
+          };
+        })()
+      );
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+      expect(preflight).not.toHaveBeenCalled();
+    });
+  });
+
+
+  describe('CLI exit details', () => {
+    const crashedRun = () =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        yield {
+          type: 'assistant' as const,
+          session_id: 'T-test-session',
+          message: {
+            id: 'msg-1',
+            type: 'message' as const,
+            role: 'assistant' as const,
+            model: 'amp',
+            content: [
+              { type: 'text' as const, text: 'Running the tests' },
+              { type: 'tool_use' as const, id: 'tool-1', name: 'Bash', input: { cmd: 'npm test' } },
+            ],
+            stop_reason: 'tool_use' as const,
+            stop_sequence: null,
+            usage: { input_tokens: 1, output_tokens: 1 },
+          },
+          parent_tool_use_id: null,
+        };
+        throw new Error('Amp CLI process exited with code 2: warming up\nfatal: out of memory');
+      })();
+
+    const expected = {
+      sessionId: 'T-test-session',
+      numTurns: 1,
+      exitCode: 2,
+      stderrTail: 'warming up\nfatal: out of memory',
+      lastTool: 'Bash',
+      lastAssistantText: 'Running the tests',
+    };
+
+    it('should attach exit code, stderr and last activity to doGenerate errors', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(crashedRun());
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+        .catch((e: unknown) => e);
+
+      expect(isAmpError(error, 'execution')).toBe(true);
+      expect(getErrorMetadata(error)).toMatchObject(expected);
+    });
+
+    it('should attach exit code, stderr and last activity to stream error parts', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(crashedRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const error = (parts.at(-1) as { error: unknown }).error;
+      expect(getErrorMetadata(error)).toMatchObject(expected);
+    });
+  });
+
+
+  describe('redaction', () => {
+    const secret = 'ghp_supersecret';
+    const prompt = [
+      { role: 'user' as const, content: [{ type: 'text' as const, text: `use ${secret}` }] },
+    ];
+    const failedRun = (message: string) =>
+      (async function* () {
+        yield {
+          type: 'system' as const,
+          subtype: 'init' as const,
+          session_id: 'T-test-session',
+          cwd: '/test',
+          tools: [],
+          mcp_servers: [],
+        };
+        throw new Error(message);
+      })();
+
+    it('should mask env secrets in errors, logs and the request body', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { env: { GITHUB_TOKEN: secret }, logger },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(
+        failedRun(`Amp CLI process exited with code 1: bad credentials ${secret}`)
+      );
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(JSON.stringify(getErrorMetadata(error))).not.toContain(secret);
+      expect((error as Error).message).not.toContain(secret);
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('[REDACTED]'));
+      expect(JSON.stringify(logger.error.mock.calls)).not.toContain(secret);
+
+      vi.mocked(execute).mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'result' as const,
+            subtype: 'success' as const,
+            session_id: 'T-test-session',
+            is_error: false as const,
+            result: 'done',
+            duration_ms: 10,
+            num_turns: 1,
+          };
+        })()
+      );
+      const { stream, request } = await model.doStream({ prompt });
+      await stream.pipeTo(new WritableStream());
+
+      expect(request?.body).not.toContain(secret);
+    });
+
+    it('should mask secrets passed per call in every log message', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({ id: 'default', settings: { verbose: true, logger } });
+      const providerOptions = {
+        'amp-sdk': { env: { GITHUB_TOKEN: secret }, redact: ['internal.example.com'] },
+      };
+      const callPrompt = [
+        {
+          role: 'user' as const,
+          content: [{ type: 'text' as const, text: `use ${secret} on internal.example.com` }],
+        },
+      ];
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(failedRun(`bad credentials ${secret}`));
+      await model.doGenerate({ prompt: callPrompt, providerOptions }).catch(() => {});
+
+      vi.mocked(execute).mockReturnValue(failedRun(`bad credentials ${secret}`));
+      const { stream } = await model.doStream({ prompt: callPrompt, providerOptions });
+      await stream.pipeTo(new WritableStream());
+
+      const logged = JSON.stringify(
+        [logger.debug, logger.info, logger.warn, logger.error].map((fn) => fn.mock.calls)
+      );
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.stringContaining('Starting doGenerate with prompt')
+      );
+      expect(logged).toContain('[REDACTED]');
+      expect(logged).not.toContain(secret);
+      expect(logged).not.toContain('internal.example.com');
+    });
+
+    it('should leave the prompt out of errors when includePromptInErrors is false', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { includePromptInErrors: false, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(failedRun('boom'));
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(getErrorMetadata(error)).toMatchObject({ originalError: 'boom' });
+      expect(getErrorMetadata(error)).not.toHaveProperty('prompt');
+    });
+  });
+
+
+  describe('cost budget', () => {
+    // Each turn costs $0.15 at the default output price
+    const expensiveRun = () =>
+      (async function* () {
+        for (const id of ['msg-1', 'msg-2', 'msg-3']) {
+          yield {
+            type: 'assistant' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              id,
+              type: 'message' as const,
+              role: 'assistant' as const,
+              model: 'test-model',
+              stop_reason: 'tool_use' as const,
+              stop_sequence: null,
+              content: [{ type: 'text' as const, text: `${id} ` }],
+              usage: { input_tokens: 0, output_tokens: 10_000 },
+            },
+          };
+        }
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'done',
+          duration_ms: 10,
+          num_turns: 3,
+        };
+      })();
+
+    it('should stop Amp and throw once the call budget is reached', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { maxCostUsd: 0.25, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(expensiveRun());
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+        })
+        .catch((e: unknown) => e);
+
+      expect(isAmpError(error, 'budget-exceeded')).toBe(true);
+      expect((error as Error).message).toBe('Call cost budget of $0.25 reached ($0.3000 spent)');
+      expect(getErrorMetadata(error)).toMatchObject({
+        numTurns: 2,
+        partialText: 'msg-1 msg-2 ',
+      });
+      expect(getErrorMetadata(error)?.costUsd).toBeCloseTo(0.3);
+      expect(vi.mocked(execute).mock.lastCall?.[0].signal?.aborted).toBe(true);
+    });
+
+    it("should end the stream with a 'length' finish when onBudgetExceeded is 'finish'", async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { maxCostUsd: 0.25, onBudgetExceeded: 'finish', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(expensiveRun());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const text = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => (part as { delta: string }).delta)
+        .join('');
+      expect(text).toBe('msg-1 msg-2 ');
+      expect(parts.at(-1)).toMatchObject({ type: 'finish', finishReason: 'length' });
+    });
+
+    it('should refuse new calls once the provider budget is used up', async () => {
+      const provider = createAmp({ maxCostUsd: 0.25, defaultSettings: { logger: false } });
+      const model = provider('default');
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValue(expensiveRun());
+
+      const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'test' }] }];
+      const first = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+      const second = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(isAmpError(first, 'budget-exceeded')).toBe(true);
+      expect(isAmpError(second, 'budget-exceeded')).toBe(true);
+      expect((second as Error).message).toMatch(/^Provider cost budget of \$0.25 reached/);
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+
+  describe('usage accounting', () => {
+    const turnsWithoutResultUsage = () =>
+      (async function* () {
+        for (const [id, usage] of [
+          ['msg-1', { input_tokens: 10, cache_read_input_tokens: 90, output_tokens: 5 }],
+          ['msg-2', { input_tokens: 20, cache_read_input_tokens: 100, output_tokens: 7 }],
+        ] as const) {
+          yield {
+            type: 'assistant' as const,
+            session_id: 'T-test-session',
+            parent_tool_use_id: null,
+            message: {
+              id,
+              type: 'message' as const,
+              role: 'assistant' as const,
+              model: 'test-model',
+              stop_reason: 'end_turn' as const,
+              stop_sequence: null,
+              content: [{ type: 'text' as const, text: 'ok ' }],
+              usage,
+            },
+          };
+        }
+        yield {
+          type: 'result' as const,
+          subtype: 'success' as const,
+          session_id: 'T-test-session',
+          is_error: false as const,
+          result: 'done',
+          duration_ms: 10,
+          num_turns: 2,
+        };
+      })();
+
+    const expectedUsage = {
+      inputTokens: 220,
+      outputTokens: 12,
+      totalTokens: 232,
+      cachedInputTokens: 190,
+    };
+    const expectedTurns = [
+      { messageId: 'msg-1', inputTokens: 100, outputTokens: 5, cachedInputTokens: 90 },
+      { messageId: 'msg-2', inputTokens: 120, outputTokens: 7, cachedInputTokens: 100 },
+    ];
+
+    it('should sum turn usage in doGenerate when the result has none', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(turnsWithoutResultUsage());
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      expect(result.usage).toEqual(expectedUsage);
+      expect(result.providerMetadata?.['amp-sdk']?.turnUsage).toEqual(expectedTurns);
+    });
+
+    it('should report the same usage on the stream finish part', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReturnValue(turnsWithoutResultUsage());
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'test' }] }],
+      });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        usage: expectedUsage,
+        providerMetadata: { 'amp-sdk': { turnUsage: expectedTurns } },
+      });
+    });
+  });
+
+
+  describe('sticky sessions', () => {
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'test' }] }];
+
+    it('should continue the captured thread on later calls', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-first')).mockReturnValueOnce(run('T-first'));
+
+      await model.doGenerate({ prompt });
+      expect(mockExecute.mock.calls[0][0].options?.continue).toBeUndefined();
+      expect(model.sessionId).toBe('T-first');
+
+      await model.doGenerate({ prompt });
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-first');
+    });
+
+    it('should start a new thread after resetSession', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-first')).mockReturnValueOnce(run('T-second'));
+
+      await model.doGenerate({ prompt });
+      model.resetSession();
+      expect(model.sessionId).toBeUndefined();
+
+      await model.doGenerate({ prompt });
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBeUndefined();
+      expect(model.sessionId).toBe('T-second');
+    });
+
+    it('should not resume in the default session mode', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-first')).mockReturnValueOnce(run('T-second'));
+
+      await model.doGenerate({ prompt });
+      await model.doGenerate({ prompt });
+
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBeUndefined();
+      expect(model.sessionId).toBe('T-second');
+    });
+
+    it('should let an explicit resume take precedence', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-first')).mockReturnValueOnce(run('T-other'));
+
+      await model.doGenerate({ prompt });
+      await model.doGenerate({ prompt, providerOptions: { 'amp-sdk': { resume: 'T-other' } } });
+
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-other');
+      expect(model.sessionId).toBe('T-other');
+    });
+
+    it('should run concurrent sticky calls one at a time on the same thread', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      let openGate!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        openGate = resolve;
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute
+        .mockReturnValueOnce(run('T-first', { gate }))
+        .mockReturnValueOnce(run('T-first'));
+
+      const { stream } = await model.doStream({ prompt });
+      const second = model.doGenerate({ prompt });
+
+      const reader = stream.getReader();
+      await reader.read(); // stream-start
+      await reader.read(); // response-metadata, Amp has reported the thread
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+
+      openGate();
+      while (!(await reader.read()).done) {
+        // drain the first call
+      }
+      await second;
+
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-first');
+    });
+
+    it('should stop waiting for the session when the caller aborts', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-first', { gate: new Promise(() => {}) }));
+
+      const { stream } = await model.doStream({ prompt });
+      const reader = stream.getReader();
+      await reader.read(); // stream-start
+      await reader.read(); // response-metadata
+
+      const controller = new AbortController();
+      const waiting = model.doGenerate({ prompt, abortSignal: controller.signal });
+      controller.abort();
+
+      const error = await waiting.catch((e: unknown) => e);
+      expect(isAmpError(error, 'aborted')).toBe(true);
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+      await reader.cancel();
+    });
+  });
+
+
+  describe('session store', () => {
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'test' }] }];
+
+    it('should continue the thread stored under the session key and store the new one', async () => {
+      const sessionStore = createMemorySessionStore();
+      await sessionStore.set('chat-1', 'T-stored');
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { sessionStore, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-stored')).mockReturnValueOnce(run('T-new'));
+
+      await model.doGenerate({ prompt, providerOptions: { 'amp-sdk': { sessionKey: 'chat-1' } } });
+      expect(mockExecute.mock.calls[0][0].options?.continue).toBe('T-stored');
+
+      const { stream } = await model.doStream({
+        prompt,
+        providerOptions: { 'amp-sdk': { sessionKey: 'chat-2' } },
+      });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBeUndefined();
+      expect(await sessionStore.get('chat-1')).toBe('T-stored');
+      expect(await sessionStore.get('chat-2')).toBe('T-new');
+    });
+
+    it('should let an explicit resume take precedence over the stored thread', async () => {
+      const sessionStore = createMemorySessionStore();
+      await sessionStore.set('chat-1', 'T-stored');
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { sessionStore, sessionKey: 'chat-1', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-other'));
+
+      await model.doGenerate({ prompt, providerOptions: { 'amp-sdk': { resume: 'T-other' } } });
+
+      expect(mockExecute.mock.calls[0][0].options?.continue).toBe('T-other');
+      expect(await sessionStore.get('chat-1')).toBe('T-other');
+    });
+
+    it('should reject a session key without a session store', async () => {
+      const model = new AmpLanguageModel({ id: 'default', settings: { logger: false } });
+
+      await expect(
+        model.doGenerate({ prompt, providerOptions: { 'amp-sdk': { sessionKey: 'chat-1' } } })
+      ).rejects.toThrow('sessionKey requires a sessionStore');
+    });
+
+    it('should raise an Amp error when the store lookup fails', async () => {
+      const sessionStore = createMemorySessionStore();
+      sessionStore.get = () => Promise.reject(new Error('store unavailable'));
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { sessionStore, sessionKey: 'chat-1', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(isAmpError(error, 'execution')).toBe(true);
+      expect((error as Error).message).toContain('store unavailable');
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it('should keep the result when storing the thread fails', async () => {
+      const sessionStore = createMemorySessionStore();
+      sessionStore.set = () => Promise.reject(new Error('disk full'));
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { sessionStore, sessionKey: 'chat-1', logger },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReset().mockReturnValueOnce(run('T-new'));
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.finishReason).toBe('stop');
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[amp-sdk] Failed to store session T-new for key chat-1: disk full'
+      );
+    });
+  });
+
+
+  describe('delta prompting', () => {
+    const user = (text: string) => ({
+      role: 'user' as const,
+      content: [{ type: 'text' as const, text }],
+    });
+    const firstPrompt = [user('Create a TODO app')];
+    const secondPrompt = [
+      ...firstPrompt,
+      { role: 'assistant' as const, content: [{ type: 'text' as const, text: 'Created it' }] },
+      user('Now add tests'),
+    ];
+
+    it('should send only the new user messages to a resumed thread', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', prompt: 'Be brief', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-1')).mockReturnValueOnce(run('T-1'));
+
+      await model.doGenerate({ prompt: firstPrompt });
+      const { request } = await model.doGenerate({ prompt: secondPrompt });
+
+      expect(mockExecute.mock.calls[0][0].prompt).toBe('System: Be brief\n\nCreate a TODO app');
+      expect(mockExecute.mock.calls[1][0].prompt).toBe('Now add tests');
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-1');
+      expect(request?.body).toBe('Now add tests');
+    });
+
+    it('should replay the whole history with resumePrompt full', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', resumePrompt: 'full', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-1')).mockReturnValueOnce(run('T-1'));
+
+      await model.doGenerate({ prompt: firstPrompt });
+      await model.doGenerate({ prompt: secondPrompt });
+
+      expect(mockExecute.mock.calls[1][0].prompt).toBe(
+        'Create a TODO app\n\nAssistant: Created it\n\nNow add tests'
+      );
+    });
+
+    it('should replay the whole history when earlier messages were edited', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { session: 'sticky', logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-1')).mockReturnValueOnce(run('T-1'));
+
+      await model.doGenerate({ prompt: firstPrompt });
+      await model.doGenerate({ prompt: [user('Create a notes app'), user('Now add tests')] });
+
+      expect(mockExecute.mock.calls[1][0].prompt).toBe('Create a notes app\n\nNow add tests');
+    });
+
+    it('should share the sent history between models of a provider', async () => {
+      const provider = createAmp({ defaultSettings: { logger: false } });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute.mockReturnValueOnce(run('T-1')).mockReturnValueOnce(run('T-1'));
+
+      await provider('default').doGenerate({ prompt: firstPrompt });
+      const { stream } = await provider('default', { resume: 'T-1' }).doStream({
+        prompt: secondPrompt,
+      });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      expect(mockExecute.mock.calls[1][0].prompt).toBe('Now add tests');
+    });
+  });
+
+
+  describe('thread concurrency', () => {
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'test' }] }];
+
+    const startFirstCall = async (threadConcurrency: 'queue' | 'reject' | 'fork') => {
+      const provider = createAmp({
+        defaultSettings: { resume: 'T-1', threadConcurrency, logger: false },
+      });
+      let finish!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      const mockExecute = vi.mocked(execute);
+      mockExecute.mockReset();
+      mockExecute
+        .mockReturnValueOnce(run('T-1', { gate }))
+        .mockReturnValueOnce(run('T-2'));
+
+      const first = provider('default').doGenerate({ prompt });
+      await vi.waitFor(() => expect(mockExecute).toHaveBeenCalledTimes(1));
+      return { provider, mockExecute, first, finish };
+    };
+
+    it('should queue a call on a thread that another call is running', async () => {
+      const { provider, mockExecute, first, finish } = await startFirstCall('queue');
+
+      const second = provider('default').doGenerate({ prompt });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+
+      finish();
+      await Promise.all([first, second]);
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBe('T-1');
+    });
+
+    it('should reject a call on a busy thread with a retryable error', async () => {
+      const { provider, mockExecute, first, finish } = await startFirstCall('reject');
+
+      const error = await provider('default')
+        .doGenerate({ prompt })
+        .catch((e: unknown) => e);
+
+      expect(isAmpError(error, 'thread-busy')).toBe(true);
+      expect((error as APICallError).isRetryable).toBe(true);
+      expect((error as Error).message).toBe('Thread T-1 is already in use by another call');
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+
+      finish();
+      await first;
+    });
+
+    it('should start a new thread with the whole history when forking', async () => {
+      const { provider, mockExecute, first, finish } = await startFirstCall('fork');
+
+      const result = await provider('default').doGenerate({ prompt });
+
+      expect(mockExecute.mock.calls[1][0].options?.continue).toBeUndefined();
+      expect(mockExecute.mock.calls[1][0].prompt).toBe('test');
+      expect(result.providerMetadata?.['amp-sdk']?.sessionId).toBe('T-2');
+
+      finish();
+      await first;
+    });
+  });
+
+
+  describe('transcripts', () => {
+    let transcriptDir: string;
+
+    beforeEach(async () => {
+      transcriptDir = await mkdtemp(join(tmpdir(), 'amp-transcripts-'));
+    });
+
+    afterEach(async () => {
+      await rm(transcriptDir, { recursive: true, force: true });
+    });
+
+    const greetingRun = () =>
+      run('T-1', {
+        messages: [
+          {
+            type: 'assistant',
+            session_id: 'T-1',
+            parent_tool_use_id: null,
+            message: {
+              id: 'msg-1',
+              type: 'message',
+              role: 'assistant',
+              model: 'test',
+              content: [{ type: 'text', text: 'Hi there' }],
+              stop_reason: 'end_turn',
+              stop_sequence: null,
+            },
+          },
+        ],
+      });
+
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] }];
+
+    it('should record the prompt, every message and the metadata of doGenerate', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { transcriptDir, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReset().mockReturnValueOnce(greetingRun());
+
+      const { providerMetadata } = await model.doGenerate({ prompt });
+      const records = await readTranscript(transcriptDir, 'T-1');
+
+      expect(records.map((record) => record.type)).toEqual([
+        'prompt',
+        'message',
+        'message',
+        'message',
+        'metadata',
+      ]);
+      expect(records[0]).toMatchObject({ prompt: 'Hello' });
+      expect(records[4]).toMatchObject({ providerMetadata });
+    });
+
+    it('should not fail a call when the transcript cannot be written', async () => {
+      const file = join(transcriptDir, 'file');
+      await writeFile(file, '');
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { transcriptDir: join(file, 'transcripts'), logger },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute)
+        .mockReset()
+        .mockReturnValueOnce(greetingRun())
+        .mockReturnValueOnce(
+          (async function* () {
+            yield* [];
+            throw new Error('Amp CLI process exited with code 1');
+          })()
+        );
+
+      await expect(model.doGenerate({ prompt })).resolves.toMatchObject({ finishReason: 'stop' });
+      await expect(model.doGenerate({ prompt })).rejects.toThrow('exited with code 1');
+
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('ENOTDIR'));
+    });
+
+    it('should record the finish metadata of doStream', async () => {
+      const model = new AmpLanguageModel({
+        id: 'default',
+        settings: { transcriptDir, logger: false },
+      });
+
+      const { execute } = await import('@sourcegraph/amp-sdk');
+      vi.mocked(execute).mockReset().mockReturnValueOnce(greetingRun());
+
+      const { stream } = await model.doStream({ prompt });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      expect(await loadTranscript(transcriptDir, 'T-1')).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: [{ type: 'text', text: 'Hi there' }] },
+      ]);
+      const records = await readTranscript(transcriptDir, 'T-1');
+      expect(records[records.length - 1]).toMatchObject({
+        type: 'metadata',
+        providerMetadata: { 'amp-sdk': { sessionId: 'T-1', numTurns: 1 } },
+      });
+    });
+  });
 });
@@ -3,21 +3,83 @@ import type {
   LanguageModelV2CallWarning,
   LanguageModelV2FinishReason,
   LanguageModelV2StreamPart,
+  LanguageModelV2Prompt,
+  LanguageModelV2Content,
   LanguageModelV2Usage,
   JSONValue,
 } from '@ai-sdk/provider';
 import { NoSuchModelError } from '@ai-sdk/provider';
+import type { APICallError } from '@ai-sdk/provider';
 import { generateId } from '@ai-sdk/provider-utils';
 import type { AmpSettings, Logger } from './types.js';
 import { convertToAmpMessages } from './convert-to-amp-messages.js';
-import { extractJson } from './extract-json.js';
-import { createAPICallError, createAuthenticationError, checkApiKey } from './errors.js';
+import { extractJson, createJsonStreamExtractor } from './extract-json.js';
+import {
+  AmpAbortedError,
+  AmpBudgetExceededError,
+  AmpExecutionError,
+  AmpMaxTurnsError,
+  AmpPermissionDeniedError,
+  AmpTimeoutError,
+  AmpThreadBusyError,
+  isAmpError,
+  toAmpError,
+} from './errors.js';
+import type { AmpError, AmpErrorMetadata } from './errors.js';
+import { createExecutionTimeouts, formatTimeoutMessage } from './timeouts.js';
+import { planRetry, resolveRetryPolicy, waitForRetry } from './retry.js';
+import { createPreflight } from './health.js';
+import { createCostTracker, formatBudgetMessage } from './budget.js';
+import { createUsageCollector } from './usage.js';
+import { createThreadHistory } from './thread-history.js';
+import { createThreadLocks, waitForTurn } from './thread-lock.js';
+import { createTranscriptRecorder } from './transcript.js';
+import type { BudgetExceeded, CostBudget } from './budget.js';
+import type { AmpRetryAttempt } from './retry.js';
+import type { ExecutionTimeouts } from './timeouts.js';
+import type { ThreadHistory } from './thread-history.js';
+import type { ThreadLocks, ThreadUnlock } from './thread-lock.js';
 import { mapAmpFinishReason } from './map-amp-finish-reason.js';
-import { validateModelId, validatePrompt } from './validation.js';
-import { getLogger, createVerboseLogger } from './logger.js';
+import { validateModelId, validatePrompt, validateSettings } from './validation.js';
+import { getLogger, createVerboseLogger, createRedactingLogger } from './logger.js';
+import { createRedactor } from './redaction.js';
+import type { Redactor } from './redaction.js';
 
 import { execute } from '@sourcegraph/amp-sdk';
-import type { ExecuteOptions } from '@sourcegraph/amp-sdk';
+import type {
+  AssistantMessage,
+  ErrorResultMessage,
+  ExecuteOptions,
+  StreamMessage,
+  ToolResultContent,
+} from '@sourcegraph/amp-sdk';
+
+/**
+ * Provider-executed tool result content part.
+ * Not exported by name from `@ai-sdk/provider`, so it is derived from the content union.
+ */
+type LanguageModelV2ToolResult = Extract<LanguageModelV2Content, { type: 'tool-result' }>;
+
+/**
+ * Thinking block emitted by the underlying model in assistant messages.
+ * The Amp SDK types only declare text and tool_use blocks, but thinking
+ * content is passed through when the model produces it.
+ */
+interface ThinkingContent {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+/**
+ * Content blocks that can appear in an Amp assistant message.
+ */
+type AssistantContentBlock = AssistantMessage['message']['content'][number] | ThinkingContent;
+
+/**
+ * Maximum length of the assistant text kept in error metadata.
+ */
+const LAST_ASSISTANT_TEXT_LIMIT = 1000;
 
 /**
  * Options for creating an Amp language model instance.
@@ -49,6 +111,30 @@ export interface AmpLanguageModelOptions {
    * Used internally to pass warnings from provider.
    */
   settingsValidationWarnings?: string[];
+
+  /**
+   * Health check runner for the `preflight` setting.
+   * Used internally so all models of a provider share one check.
+   */
+  preflight?: (settings: AmpSettings) => Promise<void>;
+
+  /**
+   * Provider-wide `maxCostUsd` budget.
+   * Used internally so all models of a provider draw on one budget.
+   */
+  costBudget?: CostBudget;
+
+  /**
+   * Record of the messages each thread has seen, for `resumePrompt: 'delta'`.
+   * Used internally so all models of a provider know every thread they ran.
+   */
+  threadHistory?: ThreadHistory;
+
+  /**
+   * Locks for `threadConcurrency`.
+   * Used internally so all models of a provider see each other's calls.
+   */
+  threadLocks?: ThreadLocks;
 }
 
 /**
@@ -70,6 +156,7 @@ export type AmpModelId = string;
  *
  * Features:
  * - Supports streaming and non-streaming generation
+ * - Pulls Amp messages on demand and stops execution when a stream is cancelled
  * - Handles JSON object generation mode
  * - Manages sessions for conversation continuity
  * - Provides detailed error handling and retry logic
@@ -97,19 +184,34 @@ export class AmpLanguageModel implements LanguageModelV2 {
   readonly modelId: AmpModelId;
   readonly settings: AmpSettings;
 
-  private sessionId?: string;
+  private capturedSessionId?: string;
+  // Bumped by resetSession() so calls still running cannot capture their thread again
+  private sessionEpoch = 0;
+  // Settles when the last sticky call queued on this instance has finished
+  private sessionQueue: Promise<void> = Promise.resolve();
   private modelValidationWarning?: string;
   private settingsValidationWarnings: string[];
+  private preflight: (settings: AmpSettings) => Promise<void>;
+  private costBudget?: CostBudget;
+  private threadHistory: ThreadHistory;
+  private threadLocks: ThreadLocks;
   private logger: Logger;
 
   constructor(options: AmpLanguageModelOptions) {
     this.modelId = options.id;
     this.settings = options.settings ?? {};
     this.settingsValidationWarnings = options.settingsValidationWarnings ?? [];
+    this.preflight = options.preflight ?? createPreflight();
+    this.costBudget = options.costBudget;
+    this.threadHistory = options.threadHistory ?? createThreadHistory();
+    this.threadLocks = options.threadLocks ?? createThreadLocks();
 
     // Create logger that respects verbose setting
     const baseLogger = getLogger(this.settings.logger);
-    this.logger = createVerboseLogger(baseLogger, this.settings.verbose ?? false);
+    this.logger = createRedactingLogger(
+      createVerboseLogger(baseLogger, this.settings.verbose ?? false),
+      createRedactor(this.settings)
+    );
 
     // Validate model ID format
     if (!this.modelId || typeof this.modelId !== 'string' || this.modelId.trim() === '') {
@@ -134,13 +236,152 @@ export class AmpLanguageModel implements LanguageModelV2 {
     return this.modelId;
   }
 
-  private setSessionId(sessionId: string): void {
-    if (sessionId && !this.sessionId) {
-      this.sessionId = sessionId;
+  /**
+   * ID of the Amp thread this instance last ran.
+   * With `session: 'sticky'`, later calls continue this thread.
+   */
+  get sessionId(): string | undefined {
+    return this.capturedSessionId;
+  }
+
+  /**
+   * Forgets the current session, so the next sticky call starts a new thread.
+   * A call that is still running does not capture its thread afterwards.
+   */
+  resetSession(): void {
+    this.capturedSessionId = undefined;
+    this.sessionEpoch++;
+    this.logger.debug('[amp-sdk] Session reset');
+  }
+
+  private setSessionId(sessionId: string, epoch: number): void {
+    if (sessionId && epoch === this.sessionEpoch && sessionId !== this.capturedSessionId) {
+      this.capturedSessionId = sessionId;
       this.logger.debug(`[amp-sdk] Session ID set: ${sessionId}`);
     }
   }
 
+  /**
+   * Starts a call on this instance's session. Sticky calls wait until the previous
+   * sticky call has finished, so concurrent calls cannot fork the thread. Unless the
+   * call sets `resume` or `continue` itself, it continues the thread stored under its
+   * `sessionKey`, or else the sticky instance's captured thread. The thread is then
+   * locked for the call as `threadConcurrency` says.
+   *
+   * @returns The session epoch of the call, its settings with the thread to continue
+   * as `resume`, the messages that thread has not seen (undefined when the whole prompt
+   * must be sent), and a function to call once the call is over; it records the
+   * messages the thread has seen, stores the thread under the `sessionKey`, and lets
+   * the next call on the instance and on the thread start
+   */
+  private async joinSession(
+    settings: AmpSettings,
+    prompt: LanguageModelV2Prompt,
+    logger: Logger,
+    signal?: AbortSignal
+  ): Promise<{
+    epoch: number;
+    settings: AmpSettings;
+    unsent?: LanguageModelV2Prompt;
+    end: (sessionId: string | undefined) => Promise<void>;
+  }> {
+    let release = () => {};
+    if (settings.session === 'sticky') {
+      const previous = this.sessionQueue;
+      const done = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      this.sessionQueue = previous.then(() => done);
+
+      try {
+        await waitForTurn(previous, signal);
+      } catch (error) {
+        release();
+        throw error;
+      }
+    }
+
+    const { sessionKey, sessionStore } = settings;
+    const explicit = settings.resume !== undefined || settings.continue !== undefined;
+    let callSettings = settings;
+    let unlock: ThreadUnlock | undefined;
+    try {
+      let resume: string | undefined;
+      if (sessionKey !== undefined && sessionStore) {
+        resume = explicit ? undefined : await sessionStore.get(sessionKey);
+      } else if (settings.session === 'sticky' && !explicit) {
+        resume = this.capturedSessionId;
+      }
+      if (resume) {
+        callSettings = { ...settings, resume };
+      }
+
+      const threadId = callSettings.resume;
+      if (threadId) {
+        const concurrency = settings.threadConcurrency ?? 'queue';
+        unlock = await this.threadLocks.acquire(threadId, {
+          wait: concurrency === 'queue',
+          lockDir: settings.threadLockDir,
+          signal,
+        });
+        if (!unlock) {
+          if (concurrency === 'reject') {
+            throw new AmpThreadBusyError({
+              message: `Thread ${threadId} is already in use by another call`,
+              metadata: { sessionId: threadId },
+            });
+          }
+          logger.info(`[amp-sdk] Thread ${threadId} is busy, starting a new thread`);
+          callSettings = { ...settings, resume: undefined, continue: undefined };
+        }
+      }
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    const threadId = callSettings.resume;
+    const unsent =
+      threadId && settings.resumePrompt !== 'full'
+        ? this.threadHistory.unsent(threadId, prompt)
+        : undefined;
+    if (unsent) {
+      logger.debug(
+        `[amp-sdk] Sending ${unsent.length} of ${prompt.length} messages to thread ${threadId}`
+      );
+    }
+
+    let ended = false;
+    return {
+      epoch: this.sessionEpoch,
+      settings: callSettings,
+      unsent,
+      end: async (sessionId) => {
+        if (ended) return;
+        ended = true;
+        if (sessionId) {
+          this.threadHistory.record(sessionId, prompt);
+        }
+        try {
+          if (sessionKey !== undefined && sessionStore && sessionId) {
+            await sessionStore.set(sessionKey, sessionId);
+          }
+        } catch (error) {
+          logger.warn(
+            `[amp-sdk] Failed to store session ${sessionId} for key ${sessionKey}: ${(error as Error).message}`
+          );
+        } finally {
+          await unlock?.().catch((error: unknown) => {
+            logger.warn(
+              `[amp-sdk] Failed to unlock thread ${threadId}: ${(error as Error).message}`
+            );
+          });
+          release();
+        }
+      },
+    };
+  }
+
   private generateAllWarnings(
     options:
       | Parameters<LanguageModelV2['doGenerate']>[0]
@@ -197,46 +438,268 @@ export class AmpLanguageModel implements LanguageModelV2 {
     return warnings;
   }
 
-  private handleAmpError(error: unknown, prompt: string): Error {
-    this.logger.error(`[amp-sdk] Error occurred: ${error}`);
-
-    // Check for authentication errors
-    if (
-      error &&
-      typeof error === 'object' &&
-      'message' in error &&
-      typeof error.message === 'string'
-    ) {
-      const message = error.message.toLowerCase();
-      if (
-        message.includes('unauthorized') ||
-        message.includes('authentication') ||
-        message.includes('api key') ||
-        message.includes('not authenticated') ||
-        message.includes('login required')
-      ) {
-        return createAuthenticationError(
-          'Amp authentication failed.',
-          error
-        );
-      }
+  /**
+   * Creates an abort controller that follows the caller's signal, so the provider
+   * can also stop execution on its own (e.g. when `maxTurns` is reached).
+   */
+  private linkAbortSignal(signal?: AbortSignal): {
+    abortController: AbortController;
+    unlink: () => void;
+  } {
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
     }
 
-    // General API error
-    return createAPICallError({
-      message: error instanceof Error ? error.message : String(error),
-      cause: error,
-      metadata: {
-        originalError: error instanceof Error ? error.message : String(error),
-        prompt: prompt.substring(0, 100),
+    return {
+      abortController,
+      unlink: () => signal?.removeEventListener('abort', onAbort),
+    };
+  }
+
+  /**
+   * Starts the wall-clock and idle timers for one execution. When a timer fires,
+   * `abort` receives a retryable timeout error carrying the run's progress so far.
+   */
+  private startTimeouts(
+    settings: AmpSettings,
+    redact: Redactor,
+    logger: Logger,
+    abort: (error: APICallError) => void,
+    getProgress: () => AmpErrorMetadata
+  ): ExecutionTimeouts {
+    const startedAt = Date.now();
+    return createExecutionTimeouts({
+      timeoutMs: settings.timeoutMs,
+      idleTimeoutMs: settings.idleTimeoutMs,
+      onTimeout: (kind, timeoutMs) => {
+        const message = formatTimeoutMessage(kind, timeoutMs);
+        logger.warn(`[amp-sdk] ${message}`);
+        abort(
+          new AmpTimeoutError({
+            message,
+            metadata: { ...getProgress(), durationMs: Date.now() - startedAt },
+            redact,
+          })
+        );
       },
     });
   }
 
+  /**
+   * Resolves the settings for a single call by merging `providerOptions['amp-sdk']`
+   * over the instance settings. Logging settings stay fixed at model creation.
+   */
+  private resolveCallSettings(
+    providerOptions: Parameters<LanguageModelV2['doGenerate']>[0]['providerOptions']
+  ): { settings: AmpSettings; warnings: LanguageModelV2CallWarning[] } {
+    const overrides = providerOptions?.['amp-sdk'] as AmpSettings | undefined;
+    if (!overrides) {
+      return { settings: this.checkSessionKey(this.settings), warnings: [] };
+    }
+
+    const validation = validateSettings(overrides);
+    if (!validation.valid) {
+      throw new Error(`Invalid providerOptions['amp-sdk']: ${validation.errors.join(', ')}`);
+    }
+
+    const warnings: LanguageModelV2CallWarning[] = validation.warnings.map((message) => ({
+      type: 'other',
+      message,
+    }));
+
+    const { logger, verbose, ...callSettings } = overrides;
+    if (logger !== undefined || verbose !== undefined) {
+      warnings.push({
+        type: 'other',
+        message:
+          "logger and verbose cannot be overridden per call and are ignored in providerOptions['amp-sdk']",
+      });
+    }
+
+    return { settings: this.checkSessionKey({ ...this.settings, ...callSettings }), warnings };
+  }
+
+  private checkSessionKey(settings: AmpSettings): AmpSettings {
+    if (settings.sessionKey !== undefined && !settings.sessionStore) {
+      throw new Error('Invalid settings: sessionKey requires a sessionStore');
+    }
+    return settings;
+  }
+
+  /**
+   * Builds Amp SDK execute options from the resolved settings.
+   */
+  private buildAmpOptions(settings: AmpSettings): ExecuteOptions['options'] {
+    // Map continue/resume to Amp SDK's single 'continue' parameter
+    // - If resume is set (string), use it as the session ID
+    // - Else use continue directly (can be boolean or string)
+    // - Otherwise, omit continue parameter (undefined)
+    const continueValue = settings.resume ? settings.resume : settings.continue;
+
+    return {
+      dangerouslyAllowAll: settings.dangerouslyAllowAll,
+      cwd: settings.cwd,
+      continue: continueValue,
+      logLevel: settings.logLevel,
+      logFile: settings.logFile,
+      mcpConfig: settings.mcpConfig,
+      env: settings.env ? Object.fromEntries(
+        Object.entries(settings.env).filter(([_, v]) => v !== undefined)
+      ) as Record<string, string> : undefined,
+      toolbox: settings.toolbox,
+      permissions: settings.permissions,
+    };
+  }
+
+  private getAssistantBlocks(
+    message: AssistantMessage,
+    settings: AmpSettings
+  ): AssistantContentBlock[] {
+    const blocks = (message.message?.content ?? []) as AssistantContentBlock[];
+    // Drop thinking blocks that are empty or when reasoning output is disabled
+    return blocks.filter(
+      (block) =>
+        block.type !== 'thinking' || (settings.includeReasoning !== false && !!block.thinking)
+    );
+  }
+
+  /**
+   * Returns the text of an assistant message, trimmed to its last
+   * {@link LAST_ASSISTANT_TEXT_LIMIT} characters for error metadata.
+   */
+  private getAssistantText(message: AssistantMessage): string | undefined {
+    const text = (message.message?.content ?? [])
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+    return text ? text.slice(-LAST_ASSISTANT_TEXT_LIMIT) : undefined;
+  }
+
+  private mapToolResult(
+    block: ToolResultContent,
+    toolNames: Map<string, string>
+  ): LanguageModelV2ToolResult {
+    return {
+      type: 'tool-result',
+      toolCallId: block.tool_use_id,
+      toolName: toolNames.get(block.tool_use_id) ?? 'unknown',
+      result: block.content,
+      isError: block.is_error,
+      providerExecuted: true,
+    };
+  }
+
+  /**
+   * Prompt excerpt attached to error metadata, unless `includePromptInErrors` is false.
+   */
+  private getPromptExcerpt(
+    settings: AmpSettings,
+    prompt: string
+  ): Pick<AmpErrorMetadata, 'prompt'> {
+    return settings.includePromptInErrors === false ? {} : { prompt: prompt.substring(0, 100) };
+  }
+
+  private redactWarnings(
+    warnings: LanguageModelV2CallWarning[],
+    redact: Redactor
+  ): LanguageModelV2CallWarning[] {
+    return warnings.map((warning) =>
+      warning.type === 'other' ? { ...warning, message: redact(warning.message) } : warning
+    );
+  }
+
+  /**
+   * Builds the error a call fails with and logs it. Attempts that are retried are
+   * only warned about, and aborts are expected, so neither is logged as an error.
+   */
+  private handleAmpError(
+    error: unknown,
+    metadata: AmpErrorMetadata,
+    redact: Redactor,
+    logger: Logger
+  ): AmpError {
+    const ampError = toAmpError(error, metadata, redact);
+    if (!isAmpError(ampError, 'aborted')) {
+      logger.error(`[amp-sdk] Error occurred: ${ampError.message}`);
+    }
+    return ampError;
+  }
+
+  /**
+   * Builds the error for a run the caller aborted. Aborts are expected, so they are
+   * not logged as errors and keep the progress needed to `resume` the thread.
+   */
+  private createAbortError(
+    signal: AbortSignal,
+    metadata: AmpErrorMetadata,
+    redact: Redactor,
+    logger: Logger
+  ): AmpAbortedError {
+    logger.info(
+      `[amp-sdk] Request aborted by caller${metadata.sessionId ? ` (session ${metadata.sessionId})` : ''}`
+    );
+    return new AmpAbortedError({
+      message: 'Amp execution was aborted',
+      cause: signal.reason,
+      metadata,
+      redact,
+    });
+  }
+
+  /**
+   * Builds the error for a call stopped by its own or the provider's `maxCostUsd`.
+   */
+  private createBudgetError(
+    exceeded: BudgetExceeded,
+    metadata: AmpErrorMetadata,
+    redact: Redactor
+  ): AmpBudgetExceededError {
+    return new AmpBudgetExceededError({
+      message: formatBudgetMessage(exceeded),
+      metadata,
+      redact,
+    });
+  }
+
+  /**
+   * Builds the typed error for an Amp result message that reports a failure.
+   */
+  private createResultError(
+    message: ErrorResultMessage,
+    context: AmpErrorMetadata,
+    redact: Redactor
+  ): AmpError {
+    const errorMsg = message.error || 'Unknown error';
+    const metadata = {
+      ...context,
+      originalError: errorMsg,
+      sessionId: message.session_id,
+      durationMs: message.duration_ms,
+      numTurns: message.num_turns,
+    };
+
+    if (message.subtype === 'error_max_turns') {
+      return new AmpMaxTurnsError({ message: errorMsg, metadata, redact });
+    }
+    if (message.permission_denials?.length) {
+      return new AmpPermissionDeniedError({
+        message: `${errorMsg} (denied: ${message.permission_denials.join(', ')})`,
+        metadata,
+        redact,
+      });
+    }
+    return toAmpError(new Error(errorMsg), metadata, redact);
+  }
+
+
   async doGenerate(
     options: Parameters<LanguageModelV2['doGenerate']>[0]
   ): Promise<{
-    content: Array<{ type: 'text'; text: string }>;
+    content: Array<LanguageModelV2Content>;
     finishReason: LanguageModelV2FinishReason;
     usage: LanguageModelV2Usage;
     warnings: LanguageModelV2CallWarning[];
@@ -249,171 +712,349 @@ export class AmpLanguageModel implements LanguageModelV2 {
   }> {
     // Note: Authentication is handled by the Amp CLI automatically
     // The CLI will use AMP_API_KEY env var or credentials from 'amp login'
-    checkApiKey(); // No-op, but kept for future extensibility
-
-    const messagesPrompt = convertToAmpMessages(options.prompt, options.responseFormat);
-    const warnings = this.generateAllWarnings(options, messagesPrompt);
+    const { settings, warnings: callSettingsWarnings } = this.resolveCallSettings(
+      options.providerOptions
+    );
+    if (settings.preflight) {
+      await this.preflight(settings);
+    }
+    const messagesPrompt = convertToAmpMessages(
+      options.prompt,
+      options.responseFormat,
+      settings.prompt
+    );
+    const warnings = [
+      ...this.generateAllWarnings(options, messagesPrompt),
+      ...callSettingsWarnings,
+    ];
 
-    this.logger.debug(`[amp-sdk] Starting doGenerate with prompt: ${messagesPrompt.substring(0, 100)}...`);
+    // Masks the secrets of this call's settings too, such as a per-call env
+    const redact = createRedactor(settings);
+    const logger = createRedactingLogger(this.logger, redact);
+    logger.debug(`[amp-sdk] Starting doGenerate with prompt: ${messagesPrompt.substring(0, 100)}...`);
 
-    // Build Amp SDK options
-    // Map continue/resume to Amp SDK's single 'continue' parameter
-    // - If resume is set (string), use it as the session ID
-    // - Else use continue directly (can be boolean or string)
-    // - Otherwise, omit continue parameter (undefined)
-    const continueValue = this.settings.resume 
-      ? this.settings.resume 
-      : this.settings.continue;
-
-    const ampOptions: ExecuteOptions['options'] = {
-      dangerouslyAllowAll: this.settings.dangerouslyAllowAll,
-      cwd: this.settings.cwd,
-      continue: continueValue,
-      logLevel: this.settings.logLevel,
-      logFile: this.settings.logFile,
-      mcpConfig: this.settings.mcpConfig,
-      env: this.settings.env ? Object.fromEntries(
-        Object.entries(this.settings.env).filter(([_, v]) => v !== undefined)
-      ) as Record<string, string> : undefined,
-      toolbox: this.settings.toolbox,
-      permissions: this.settings.permissions,
-    };
+    const promptExcerpt = this.getPromptExcerpt(settings, messagesPrompt);
+    const transcript = settings.transcriptDir
+      ? createTranscriptRecorder({
+          transcriptDir: settings.transcriptDir,
+          redact,
+          logger,
+        })
+      : undefined;
 
     let accumulatedText = '';
-    let usage: LanguageModelV2Usage = {
-      inputTokens: 0,
-      outputTokens: 0,
-      totalTokens: 0,
-    };
+    let content: LanguageModelV2Content[] = [];
+    const toolNames = new Map<string, string>();
+    const usageCollector = createUsageCollector();
     let finishReason: LanguageModelV2FinishReason = 'unknown';
     let sessionId: string | undefined;
     let costUsd: number | undefined;
     let durationMs: number | undefined;
+    let numTurns: number | undefined;
+    let turnCount = 0;
+    let lastTool: string | undefined;
+    let lastAssistantText: string | undefined;
+    const maxTurns = settings.maxTurns;
+    const retryPolicy = resolveRetryPolicy(settings.retry);
+    const attempts: AmpRetryAttempt[] = [];
+    // What the run had done so far, attached to any error it ends with
+    const progress = (): AmpErrorMetadata => ({
+      sessionId,
+      numTurns: turnCount,
+      ...(lastTool && { lastTool }),
+      ...(lastAssistantText && { lastAssistantText }),
+    });
+    const abortError = (signal: AbortSignal) =>
+      this.createAbortError(signal, { ...progress(), partialText: accumulatedText }, redact, logger);
+    const costTracker = createCostTracker({
+      maxCostUsd: settings.maxCostUsd,
+      rates: settings.costRates,
+      budget: this.costBudget,
+    });
+    const budgetError = (exceeded: BudgetExceeded) =>
+      this.createBudgetError(
+        exceeded,
+        { ...progress(), partialText: accumulatedText, costUsd: costTracker.costUsd },
+        redact
+      );
 
-    try {
-      const response = execute({
-        prompt: messagesPrompt,
-        options: ampOptions,
-        signal: options.abortSignal,
-      });
+    // Runs one Amp execution; its output adds to the content gathered by earlier attempts
+    const runAttempt = async (resumeSessionId?: string) => {
+      // Don't start an execution once the provider budget is used up
+      costTracker.beginAttempt();
+      const exhausted = costTracker.exceeded();
+      if (exhausted) {
+        throw budgetError(exhausted);
+      }
+
+      const { abortController, unlink } = this.linkAbortSignal(options.abortSignal);
+      let timeoutError: APICallError | undefined;
+      const timeouts = this.startTimeouts(
+        settings,
+        redact,
+        logger,
+        (error) => {
+          timeoutError = error;
+          abortController.abort(error);
+        },
+        progress
+      );
+
+      try {
+        const attemptPrompt = resumeSessionId ? retryPolicy.continuePrompt : ampPrompt;
+        transcript?.recordPrompt(attemptPrompt);
+        const response = execute({
+          prompt: attemptPrompt,
+          options: resumeSessionId ? { ...ampOptions, continue: resumeSessionId } : ampOptions,
+          signal: abortController.signal,
+        });
 
-      for await (const message of response) {
-        this.logger.debug(`[amp-sdk] Received message type: ${message.type}`);
-
-        if (message.type === 'system' && message.subtype === 'init') {
-          // Store session ID
-          this.setSessionId(message.session_id);
-          sessionId = message.session_id;
-          this.logger.info(`[amp-sdk] Session initialized: ${sessionId}`);
-        } else if (message.type === 'assistant') {
-          // Accumulate assistant text
-          if (message.message?.content) {
-            const content = message.message.content;
-            const text = content
-              .map((c: { type: string; text?: string }) => (c.type === 'text' ? c.text : ''))
-              .join('');
-            if (text) {
-              accumulatedText += text;
+        timeouts.startIdle();
+        for await (const message of response) {
+          timeouts.startIdle();
+          transcript?.recordMessage(message);
+          logger.debug(`[amp-sdk] Received message type: ${message.type}`);
+
+          if (message.type === 'system' && message.subtype === 'init') {
+            // Store session ID
+            this.setSessionId(message.session_id, session.epoch);
+            sessionId = message.session_id;
+            logger.info(`[amp-sdk] Session initialized: ${sessionId}`);
+          } else if (message.type === 'assistant') {
+            // Amp has no turn limit of its own, so stop before a turn beyond maxTurns is used
+            if (maxTurns !== undefined && turnCount >= maxTurns) {
+              // The dropped turn's tokens were still spent
+              if (message.message?.usage) {
+                usageCollector.recordTurn(message.message.id, message.message.usage);
+                costTracker.recordTurn(message.message.id, message.message.usage);
+              }
+              logger.warn(`[amp-sdk] Stopping execution: maxTurns (${maxTurns}) reached`);
+              abortController.abort();
+              finishReason = 'length';
+              numTurns = turnCount;
+              break;
             }
-          }
-        } else if (message.type === 'result') {
-          // Extract final result
-          this.logger.info(
-            `[amp-sdk] Generation completed - Session: ${message.session_id}, Duration: ${message.duration_ms ?? 'N/A'}ms`
-          );
+            turnCount++;
+            lastAssistantText = this.getAssistantText(message) ?? lastAssistantText;
 
-          sessionId = message.session_id;
-          this.setSessionId(message.session_id);
-          durationMs = message.duration_ms;
-
-          if (!message.is_error) {
-            // Success result
-            // Note: Don't overwrite accumulatedText with message.result
-            // The accumulatedText from assistant messages is what we want
-            // message.result is the formatted final answer which may include markdown
-
-            // Extract usage if available
-            if ('usage' in message && message.usage) {
-              const rawUsage = message.usage as {
-                input_tokens?: number;
-                output_tokens?: number;
-                cache_creation_input_tokens?: number;
-                cache_read_input_tokens?: number;
-              };
-              usage = {
-                inputTokens:
-                  (rawUsage.cache_creation_input_tokens ?? 0) +
-                  (rawUsage.cache_read_input_tokens ?? 0) +
-                  (rawUsage.input_tokens ?? 0),
-                outputTokens: rawUsage.output_tokens ?? 0,
-                totalTokens:
-                  (rawUsage.cache_creation_input_tokens ?? 0) +
-                  (rawUsage.cache_read_input_tokens ?? 0) +
-                  (rawUsage.input_tokens ?? 0) +
-                  (rawUsage.output_tokens ?? 0),
-              };
+            // Keep the turn's text, reasoning and provider-executed tool calls in the order Amp sent them
+            let turnText = '';
+            for (const block of this.getAssistantBlocks(message, settings)) {
+              if (block.type === 'thinking') {
+                if (turnText) {
+                  content.push({ type: 'text', text: turnText });
+                  turnText = '';
+                }
+                content.push({ type: 'reasoning', text: block.thinking });
+              } else if (block.type === 'text') {
+                if (block.text) {
+                  accumulatedText += block.text;
+                  turnText += block.text;
+                }
+              } else if (block.type === 'tool_use') {
+                if (turnText) {
+                  content.push({ type: 'text', text: turnText });
+                  turnText = '';
+                }
+                toolNames.set(block.id, block.name);
+                lastTool = block.name;
+                content.push({
+                  type: 'tool-call',
+                  toolCallId: block.id,
+                  toolName: block.name,
+                  input: JSON.stringify(block.input ?? {}),
+                  providerExecuted: true,
+                });
+              }
+            }
+            if (turnText) {
+              content.push({ type: 'text', text: turnText });
             }
 
-            // Extract cost if available
-            if ('total_cost_usd' in message) {
-              const msg = message as { total_cost_usd?: number };
-              if (typeof msg.total_cost_usd === 'number') {
-                costUsd = msg.total_cost_usd;
+            if (message.message?.usage) {
+              usageCollector.recordTurn(message.message.id, message.message.usage);
+              costTracker.recordTurn(message.message.id, message.message.usage);
+            }
+            const overBudget = costTracker.exceeded();
+            if (overBudget) {
+              if (settings.onBudgetExceeded !== 'finish') {
+                const error = budgetError(overBudget);
+                abortController.abort(error);
+                throw error;
               }
+              logger.warn(`[amp-sdk] Stopping execution: ${formatBudgetMessage(overBudget)}`);
+              abortController.abort();
+              finishReason = 'length';
+              numTurns = turnCount;
+              break;
             }
+          } else if (message.type === 'user') {
+            // Tool results come back from Amp as user messages
+            for (const block of message.message?.content ?? []) {
+              if (block.type === 'tool_result') {
+                content.push(this.mapToolResult(block, toolNames));
+              }
+            }
+          } else if (message.type === 'result') {
+            // Extract final result
+            logger.info(
+              `[amp-sdk] Generation completed - Session: ${message.session_id}, Duration: ${message.duration_ms ?? 'N/A'}ms`
+            );
 
-            finishReason = mapAmpFinishReason(message.subtype);
-          } else {
-            // Error result
-            const errorMsg = 'error' in message ? String(message.error) : 'Unknown error';
-            throw createAPICallError({
-              message: errorMsg,
-              metadata: {
-                originalError: errorMsg,
-                prompt: messagesPrompt.substring(0, 100),
-                sessionId: message.session_id,
-                durationMs: message.duration_ms,
-                numTurns: message.num_turns,
-              },
-            });
+            sessionId = message.session_id;
+            this.setSessionId(message.session_id, session.epoch);
+            durationMs = message.duration_ms;
+            numTurns = message.num_turns;
+
+            const reportedCost = (message as { total_cost_usd?: number }).total_cost_usd;
+            if (typeof reportedCost === 'number') {
+              costTracker.recordTotal(reportedCost);
+            }
+
+            const stoppedAtMaxTurns =
+              message.subtype === 'error_max_turns' && !settings.throwOnMaxTurns;
+            if (stoppedAtMaxTurns) {
+              logger.warn(
+                `[amp-sdk] Amp reached its turn limit after ${message.num_turns} turns, returning partial output`
+              );
+            }
+
+            if (!message.is_error || stoppedAtMaxTurns) {
+              // Success result, or a max-turns stop treated as a 'length' finish
+              // Note: Don't overwrite accumulatedText with message.result
+              // The accumulatedText from assistant messages is what we want
+              // message.result is the formatted final answer which may include markdown
+
+              // Prefer the result's usage; without it, the turns' usage is summed
+              if (message.usage) {
+                usageCollector.recordResult(message.usage);
+              }
+
+              // Extract cost if available
+              if ('total_cost_usd' in message) {
+                const msg = message as { total_cost_usd?: number };
+                if (typeof msg.total_cost_usd === 'number') {
+                  costUsd = msg.total_cost_usd;
+                }
+              }
+
+              finishReason = mapAmpFinishReason(message.subtype);
+            } else {
+              throw this.createResultError(message, { ...promptExcerpt, ...progress() }, redact);
+            }
           }
         }
+
+        if (timeoutError) {
+          throw timeoutError;
+        }
+      } catch (error: unknown) {
+        if (timeoutError) {
+          throw timeoutError;
+        }
+        if (options.abortSignal?.aborted) {
+          throw isAmpError(error, 'aborted') ? error : abortError(options.abortSignal);
+        }
+        throw toAmpError(error, { ...promptExcerpt, ...progress() }, redact);
+      } finally {
+        timeouts.clear();
+        unlink();
       }
+    };
+
+    const session = await this.joinSession(settings, options.prompt, logger, options.abortSignal).catch(
+      (error: unknown) => {
+        if (options.abortSignal?.aborted) {
+          throw abortError(options.abortSignal);
+        }
+        throw this.handleAmpError(error, promptExcerpt, redact, logger);
+      }
+    );
+    const ampOptions = this.buildAmpOptions(session.settings);
+    // A resumed thread only needs the messages it has not seen
+    const ampPrompt = session.unsent
+      ? convertToAmpMessages(session.unsent, options.responseFormat)
+      : messagesPrompt;
+
+    try {
+      for (;;) {
+        // Once Amp has reported a session, retries continue that thread instead of starting over
+        const resumeSessionId = attempts.length > 0 ? sessionId : undefined;
+        attempts.push({
+          attempt: attempts.length + 1,
+          ...(resumeSessionId && { resumedSessionId: resumeSessionId }),
+        });
 
-      // Handle JSON mode
-      if (options.responseFormat?.type === 'json' && accumulatedText) {
-        const extractedJson = extractJson(accumulatedText);
         try {
-          JSON.parse(extractedJson);
-          accumulatedText = extractedJson;
-        } catch (error) {
-          warnings.push({
-            type: 'other',
-            message: 'Failed to extract valid JSON from response',
+          await runAttempt(resumeSessionId);
+          break;
+        } catch (error: unknown) {
+          const delayMs = isAmpError(error) ? planRetry(retryPolicy, attempts, error) : undefined;
+          if (delayMs === undefined) {
+            throw this.handleAmpError(error, promptExcerpt, redact, logger);
+          }
+          logger.warn(
+            `[amp-sdk] Attempt ${attempts.length} failed: ${(error as Error).message}. Retrying in ${delayMs}ms`
+          );
+          await waitForRetry(delayMs, options.abortSignal).catch(() => {
+            throw abortError(options.abortSignal!);
           });
-          this.logger.warn('[amp-sdk] Failed to extract valid JSON from response');
         }
       }
+    } finally {
+      await transcript?.flush();
+      await session.end(sessionId);
+    }
 
-      this.logger.debug(`[amp-sdk] Generation complete. Text length: ${accumulatedText.length}`);
+    if (options.abortSignal?.aborted) {
+      throw abortError(options.abortSignal);
+    }
 
-      return {
-        content: [{ type: 'text' as const, text: accumulatedText }],
-        finishReason,
-        usage,
-        warnings,
-        request: { body: messagesPrompt },
-        providerMetadata: {
-          'amp-sdk': {
-            sessionId: sessionId as JSONValue,
-            ...(costUsd !== undefined && { costUsd: costUsd as JSONValue }),
-            ...(durationMs !== undefined && { durationMs: durationMs as JSONValue }),
-          },
-        },
-      };
-    } catch (error: unknown) {
-      throw this.handleAmpError(error, messagesPrompt);
+    // Handle JSON mode
+    if (options.responseFormat?.type === 'json' && accumulatedText) {
+      const extractedJson = extractJson(accumulatedText);
+      try {
+        JSON.parse(extractedJson);
+        accumulatedText = extractedJson;
+        // Replace the per-turn text with the extracted JSON so callers parse a single payload
+        content = [
+          ...content.filter((part) => part.type !== 'text'),
+          { type: 'text', text: extractedJson },
+        ];
+      } catch (error) {
+        warnings.push({
+          type: 'other',
+          message: 'Failed to extract valid JSON from response',
+        });
+        logger.warn('[amp-sdk] Failed to extract valid JSON from response');
+      }
     }
+
+    logger.debug(`[amp-sdk] Generation complete. Text length: ${accumulatedText.length}`);
+
+    const providerMetadata = {
+      'amp-sdk': {
+        sessionId: sessionId as JSONValue,
+        ...(costUsd !== undefined && { costUsd: costUsd as JSONValue }),
+        ...(durationMs !== undefined && { durationMs: durationMs as JSONValue }),
+        ...(numTurns !== undefined && { numTurns: numTurns as JSONValue }),
+        ...(settings.retry && { attempts: attempts as unknown as JSONValue }),
+        ...(usageCollector.turns().length > 0 && {
+          turnUsage: usageCollector.turns() as unknown as JSONValue,
+        }),
+      },
+    };
+    transcript?.recordMetadata(providerMetadata);
+    await transcript?.flush();
+
+    return {
+      content,
+      finishReason,
+      usage: usageCollector.usage(),
+      warnings: this.redactWarnings(warnings, redact),
+      request: { body: redact(ampPrompt) },
+      providerMetadata,
+    };
   }
 
   async doStream(
@@ -424,203 +1065,553 @@ export class AmpLanguageModel implements LanguageModelV2 {
   }> {
     // Note: Authentication is handled by the Amp CLI automatically
     // The CLI will use AMP_API_KEY env var or credentials from 'amp login'
-    checkApiKey(); // No-op, but kept for future extensibility
+    const { settings, warnings: callSettingsWarnings } = this.resolveCallSettings(
+      options.providerOptions
+    );
+    if (settings.preflight) {
+      await this.preflight(settings);
+    }
+    const messagesPrompt = convertToAmpMessages(
+      options.prompt,
+      options.responseFormat,
+      settings.prompt
+    );
+    const warnings = [
+      ...this.generateAllWarnings(options, messagesPrompt),
+      ...callSettingsWarnings,
+    ];
 
-    const messagesPrompt = convertToAmpMessages(options.prompt, options.responseFormat);
-    const warnings = this.generateAllWarnings(options, messagesPrompt);
+    // Masks the secrets of this call's settings too, such as a per-call env
+    const redact = createRedactor(settings);
+    const logger = createRedactingLogger(this.logger, redact);
+    logger.debug(`[amp-sdk] Starting doStream with prompt: ${messagesPrompt.substring(0, 100)}...`);
 
-    this.logger.debug(`[amp-sdk] Starting doStream with prompt: ${messagesPrompt.substring(0, 100)}...`);
+    const promptExcerpt = this.getPromptExcerpt(settings, messagesPrompt);
+    const transcript = settings.transcriptDir
+      ? createTranscriptRecorder({
+          transcriptDir: settings.transcriptDir,
+          redact,
+          logger,
+        })
+      : undefined;
 
-    // Build Amp SDK options
-    // Map continue/resume to Amp SDK's single 'continue' parameter
-    // - If resume is set (string), use it as the session ID
-    // - Else use continue directly (can be boolean or string)
-    // - Otherwise, omit continue parameter (undefined)
-    const continueValue = this.settings.resume 
-      ? this.settings.resume 
-      : this.settings.continue;
+    const self = this;
 
-    const ampOptions: ExecuteOptions['options'] = {
-      dangerouslyAllowAll: this.settings.dangerouslyAllowAll,
-      cwd: this.settings.cwd,
-      continue: continueValue,
-      logLevel: this.settings.logLevel,
-      logFile: this.settings.logFile,
-      mcpConfig: this.settings.mcpConfig,
-      env: this.settings.env ? Object.fromEntries(
-        Object.entries(this.settings.env).filter(([_, v]) => v !== undefined)
-      ) as Record<string, string> : undefined,
-      toolbox: this.settings.toolbox,
-      permissions: this.settings.permissions,
+    // Linked to the caller's signal so cancel() can stop the Amp process even without one
+    let abortController: AbortController | undefined;
+    let unlink: (() => void) | undefined;
+    let iterator: AsyncIterator<StreamMessage> | undefined;
+    let timeouts: ExecutionTimeouts | undefined;
+    let timeoutError: APICallError | undefined;
+    let cancelled = false;
+    const retryPolicy = resolveRetryPolicy(settings.retry);
+    const attempts: AmpRetryAttempt[] = [];
+
+    let sessionId: string | undefined;
+    let turnCount = 0;
+    const maxTurns = settings.maxTurns;
+    let streamedText = '';
+    let textPartId: string | undefined;
+    let jsonTextId: string | undefined;
+    // JSON located in the current turn, forwarded once the turn looks like the last one
+    let heldJson = '';
+    const jsonExtractor =
+      options.responseFormat?.type === 'json' ? createJsonStreamExtractor() : undefined;
+    const toolNames = new Map<string, string>();
+    const usageCollector = createUsageCollector();
+    let lastTool: string | undefined;
+    let lastAssistantText: string | undefined;
+    // What the run had done so far, attached to any error it ends with
+    const progress = (): AmpErrorMetadata => ({
+      sessionId,
+      numTurns: turnCount,
+      ...(lastTool && { lastTool }),
+      ...(lastAssistantText && { lastAssistantText }),
+    });
+    const abortError = (signal: AbortSignal) =>
+      self.createAbortError(signal, { ...progress(), partialText: streamedText }, redact, logger);
+    const costTracker = createCostTracker({
+      maxCostUsd: settings.maxCostUsd,
+      rates: settings.costRates,
+      budget: self.costBudget,
+    });
+    const budgetError = (exceeded: BudgetExceeded) =>
+      self.createBudgetError(
+        exceeded,
+        { ...progress(), partialText: streamedText, costUsd: costTracker.costUsd },
+        redact
+      );
+    // A sticky stream holds the session until it ends or is cancelled
+    const session = await this.joinSession(settings, options.prompt, logger, options.abortSignal).catch(
+      (error: unknown) => {
+        if (options.abortSignal?.aborted) {
+          throw abortError(options.abortSignal);
+        }
+        throw this.handleAmpError(error, promptExcerpt, redact, logger);
+      }
+    );
+    const ampOptions = this.buildAmpOptions(session.settings);
+    // A resumed thread only needs the messages it has not seen
+    const ampPrompt = session.unsent
+      ? convertToAmpMessages(session.unsent, options.responseFormat)
+      : messagesPrompt;
+
+    // Retry attempts and per-turn usage, added to the metadata of every finish part
+    const callMetadata = (): Record<string, JSONValue> => {
+      const turns = usageCollector.turns();
+      return {
+        ...(settings.retry && { attempts: attempts as unknown as JSONValue }),
+        ...(turns.length > 0 && { turnUsage: turns as unknown as JSONValue }),
+      };
     };
 
-    const self = this;
-    const stream = new ReadableStream<LanguageModelV2StreamPart>({
-      async start(controller) {
-        let accumulatedText = '';
-        let textPartId: string | undefined;
-        let usage: LanguageModelV2Usage = {
-          inputTokens: 0,
-          outputTokens: 0,
-          totalTokens: 0,
-        };
+    // Writes out the transcript and lets the next call on the session start
+    const endCall = async () => {
+      await transcript?.flush();
+      await session.end(sessionId);
+    };
 
-        try {
-          // Always emit stream-start for consistent stream lifecycle
+    type PartSink = { enqueue: (part: LanguageModelV2StreamPart) => void };
+
+    // Forward extracted JSON as a single text part that stays open across turns
+    const enqueueJson = (controller: PartSink, delta: string) => {
+      if (!delta) return;
+      if (!jsonTextId) {
+        jsonTextId = generateId();
+        controller.enqueue({
+          type: 'text-start',
+          id: jsonTextId,
+        });
+      }
+      controller.enqueue({
+        type: 'text-delta',
+        id: jsonTextId,
+        delta,
+      });
+    };
+
+    // Close whichever text part is still open before the stream finishes
+    const closeTextParts = (controller: PartSink) => {
+      if (jsonExtractor) {
+        if (!jsonTextId) {
+          // Nothing was forwarded yet, so send exactly what extractJson finds in the full text
+          jsonExtractor.reset();
+          heldJson = '';
+        }
+        // Forward whatever the incremental extractor could not stream
+        enqueueJson(controller, heldJson + jsonExtractor.flush());
+        heldJson = '';
+        if (jsonExtractor.failed) {
+          logger.warn('[amp-sdk] Failed to extract valid JSON from response');
+          if (jsonTextId) {
+            controller.enqueue({
+              type: 'error',
+              error: new AmpExecutionError({
+                message: 'Streamed JSON differs from the JSON extracted from the full response',
+                metadata: { ...progress(), partialText: streamedText },
+                redact,
+              }),
+            });
+          }
+        }
+        if (jsonTextId) {
           controller.enqueue({
-            type: 'stream-start',
-            warnings,
+            type: 'text-end',
+            id: jsonTextId,
           });
+        }
+      } else if (textPartId) {
+        // Close the text part if it was opened
+        controller.enqueue({
+          type: 'text-end',
+          id: textPartId,
+        });
+      }
+    };
 
-          const response = execute({
-            prompt: messagesPrompt,
-            options: ampOptions,
-            signal: options.abortSignal,
-          });
+    // Stop Amp before it finishes and end the stream with a 'length' finish
+    const stopEarly = (controller: PartSink, messageSessionId: string) => {
+      stopExecution();
+      closeTextParts(controller);
+      controller.enqueue({
+        type: 'finish',
+        finishReason: 'length',
+        usage: usageCollector.usage(),
+        providerMetadata: {
+          'amp-sdk': {
+            sessionId: (sessionId ?? messageSessionId) as JSONValue,
+            numTurns: turnCount,
+            ...callMetadata(),
+          },
+        },
+      });
+    };
+
+    /**
+     * Maps one Amp message to stream parts.
+     * Returns true when the stream is complete and no further messages should be read.
+     */
+    const handleMessage = (message: StreamMessage, controller: PartSink): boolean => {
+
+      if (message.type === 'system' && message.subtype === 'init') {
+        // Store session ID
+        self.setSessionId(message.session_id, session.epoch);
+        sessionId = message.session_id;
+
+        // Emit response metadata
+        controller.enqueue({
+          type: 'response-metadata',
+          id: message.session_id,
+          timestamp: new Date(),
+          modelId: self.getModel(),
+        });
+      } else if (message.type === 'assistant') {
+        // Amp has no turn limit of its own, so stop before a turn beyond maxTurns is used
+        if (maxTurns !== undefined && turnCount >= maxTurns) {
+          // The dropped turn's tokens were still spent
+          if (message.message?.usage) {
+            usageCollector.recordTurn(message.message.id, message.message.usage);
+            costTracker.recordTurn(message.message.id, message.message.usage);
+          }
+          logger.warn(`[amp-sdk] Stopping execution: maxTurns (${maxTurns}) reached`);
+          stopEarly(controller, message.session_id);
+          return true;
+        }
+        turnCount++;
+        lastAssistantText = self.getAssistantText(message) ?? lastAssistantText;
+
+        // JSON held from an earlier turn was not the answer, since the agent went on
+        if (jsonExtractor && heldJson) {
+          jsonExtractor.reset();
+          heldJson = '';
+        }
 
-          for await (const message of response) {
-            if (message.type === 'system' && message.subtype === 'init') {
-              // Store session ID
-              self.setSessionId(message.session_id);
-              
-              // Emit response metadata
+        // Stream assistant text, reasoning and tool calls in the order Amp sent them
+        for (const block of self.getAssistantBlocks(message, settings)) {
+          if (block.type === 'thinking') {
+            // Close any open text part so reasoning appears between text segments
+            if (textPartId) {
               controller.enqueue({
-                type: 'response-metadata',
-                id: message.session_id,
-                timestamp: new Date(),
-                modelId: self.getModel(),
+                type: 'text-end',
+                id: textPartId,
               });
-            } else if (message.type === 'assistant') {
-              // Stream assistant text
-              if (message.message?.content) {
-                const content = message.message.content;
-                const text = content
-                  .map((c: { type: string; text?: string }) => (c.type === 'text' ? c.text : ''))
-                  .join('');
-
-                if (text) {
-                  accumulatedText += text;
-
-                  // In JSON mode, we accumulate the text and extract JSON at the end
-                  // Otherwise, stream the text as it comes
-                  if (options.responseFormat?.type !== 'json') {
-                    // Emit text-start if this is the first text
-                    if (!textPartId) {
-                      textPartId = generateId();
-                      controller.enqueue({
-                        type: 'text-start',
-                        id: textPartId,
-                      });
-                    }
-
-                    controller.enqueue({
-                      type: 'text-delta',
-                      id: textPartId,
-                      delta: text,
-                    });
-                  }
-                }
-              }
-            } else if (message.type === 'result') {
-              // Handle final result
-              const sessionId = message.session_id;
-              self.setSessionId(sessionId);
-
-              if (!message.is_error) {
-                // Extract usage if available
-                if ('usage' in message && message.usage) {
-                  const rawUsage = message.usage as {
-                    input_tokens?: number;
-                    output_tokens?: number;
-                    cache_creation_input_tokens?: number;
-                    cache_read_input_tokens?: number;
-                  };
-                  usage = {
-                    inputTokens:
-                      (rawUsage.cache_creation_input_tokens ?? 0) +
-                      (rawUsage.cache_read_input_tokens ?? 0) +
-                      (rawUsage.input_tokens ?? 0),
-                    outputTokens: rawUsage.output_tokens ?? 0,
-                    totalTokens:
-                      (rawUsage.cache_creation_input_tokens ?? 0) +
-                      (rawUsage.cache_read_input_tokens ?? 0) +
-                      (rawUsage.input_tokens ?? 0) +
-                      (rawUsage.output_tokens ?? 0),
-                  };
-                }
-
-                // Handle JSON mode
-                if (options.responseFormat?.type === 'json' && accumulatedText) {
-                  const extractedJson = extractJson(accumulatedText);
-                  const jsonTextId = generateId();
-                  controller.enqueue({
-                    type: 'text-start',
-                    id: jsonTextId,
-                  });
-                  controller.enqueue({
-                    type: 'text-delta',
-                    id: jsonTextId,
-                    delta: extractedJson,
-                  });
-                  controller.enqueue({
-                    type: 'text-end',
-                    id: jsonTextId,
-                  });
-                } else if (textPartId) {
-                  // Close the text part if it was opened
-                  controller.enqueue({
-                    type: 'text-end',
-                    id: textPartId,
-                  });
-                }
+              textPartId = undefined;
+            }
 
-                const finishReason = mapAmpFinishReason(message.subtype);
+            const reasoningId = generateId();
+            controller.enqueue({
+              type: 'reasoning-start',
+              id: reasoningId,
+            });
+            controller.enqueue({
+              type: 'reasoning-delta',
+              id: reasoningId,
+              delta: block.thinking,
+            });
+            controller.enqueue({
+              type: 'reasoning-end',
+              id: reasoningId,
+            });
+          } else if (block.type === 'text') {
+            if (!block.text) continue;
+            streamedText += block.text;
 
-                controller.enqueue({
-                  type: 'finish',
-                  finishReason,
-                  usage,
-                  providerMetadata: {
-                    'amp-sdk': {
-                      sessionId: sessionId as JSONValue,
-                      ...('total_cost_usd' in message && typeof (message as { total_cost_usd?: number }).total_cost_usd === 'number' && {
-                        costUsd: (message as { total_cost_usd?: number }).total_cost_usd as JSONValue,
-                      }),
-                      ...(message.duration_ms !== undefined && { durationMs: message.duration_ms as JSONValue }),
-                    },
-                  },
-                });
+            // In JSON mode, only the JSON payload is forwarded as it is located
+            // Otherwise, stream the text as it comes
+            if (jsonExtractor) {
+              const delta = jsonExtractor.push(block.text);
+              if (jsonTextId) {
+                enqueueJson(controller, delta);
               } else {
-                // Error result
-                const errorMsg = 'error' in message ? String(message.error) : 'Unknown error';
-                throw createAPICallError({
-                  message: errorMsg,
-                  metadata: {
-                    originalError: errorMsg,
-                    sessionId: message.session_id,
-                    durationMs: message.duration_ms,
-                    numTurns: message.num_turns,
-                  },
+                heldJson += delta;
+              }
+            } else {
+              // Emit text-start if no text part is currently open
+              if (!textPartId) {
+                textPartId = generateId();
+                controller.enqueue({
+                  type: 'text-start',
+                  id: textPartId,
                 });
               }
+
+              controller.enqueue({
+                type: 'text-delta',
+                id: textPartId,
+                delta: block.text,
+              });
             }
+          } else if (block.type === 'tool_use') {
+            // Close any open text part so the tool call appears between text segments
+            if (textPartId) {
+              controller.enqueue({
+                type: 'text-end',
+                id: textPartId,
+              });
+              textPartId = undefined;
+            }
+
+            // Amp executes its own tools, so these are provider-executed calls
+            const input = JSON.stringify(block.input ?? {});
+            toolNames.set(block.id, block.name);
+            lastTool = block.name;
+            logger.debug(`[amp-sdk] Tool call: ${block.name} (${block.id})`);
+
+            controller.enqueue({
+              type: 'tool-input-start',
+              id: block.id,
+              toolName: block.name,
+              providerExecuted: true,
+            });
+            controller.enqueue({
+              type: 'tool-input-delta',
+              id: block.id,
+              delta: input,
+            });
+            controller.enqueue({
+              type: 'tool-input-end',
+              id: block.id,
+            });
+            controller.enqueue({
+              type: 'tool-call',
+              toolCallId: block.id,
+              toolName: block.name,
+              input,
+              providerExecuted: true,
+            });
           }
+        }
+
+        // A turn that calls a tool is followed by another, which may print the real answer
+        const lastTurn =
+          message.message?.stop_reason !== 'tool_use' &&
+          !message.message?.content?.some((block) => block.type === 'tool_use');
+        if (heldJson && lastTurn) {
+          enqueueJson(controller, heldJson);
+          heldJson = '';
+        }
+
+        if (message.message?.usage) {
+          usageCollector.recordTurn(message.message.id, message.message.usage);
+          costTracker.recordTurn(message.message.id, message.message.usage);
+        }
+        const overBudget = costTracker.exceeded();
+        if (overBudget) {
+          if (settings.onBudgetExceeded !== 'finish') {
+            throw budgetError(overBudget);
+          }
+          logger.warn(`[amp-sdk] Stopping execution: ${formatBudgetMessage(overBudget)}`);
+          stopEarly(controller, message.session_id);
+          return true;
+        }
+      } else if (message.type === 'user') {
+        // Tool results come back from Amp as user messages
+        for (const block of message.message?.content ?? []) {
+          if (block.type === 'tool_result') {
+            controller.enqueue(self.mapToolResult(block, toolNames));
+          }
+        }
+      } else if (message.type === 'result') {
+        // Handle final result
+        sessionId = message.session_id;
+        self.setSessionId(sessionId, session.epoch);
+
+        const reportedCost = (message as { total_cost_usd?: number }).total_cost_usd;
+        if (typeof reportedCost === 'number') {
+          costTracker.recordTotal(reportedCost);
+        }
+
+        const stoppedAtMaxTurns =
+          message.subtype === 'error_max_turns' && !settings.throwOnMaxTurns;
+        if (stoppedAtMaxTurns) {
+          logger.warn(
+            `[amp-sdk] Amp reached its turn limit after ${message.num_turns} turns, ending stream with partial output`
+          );
+        }
+
+        if (!message.is_error || stoppedAtMaxTurns) {
+          // Prefer the result's usage; without it, the turns' usage is summed
+          if (message.usage) {
+            usageCollector.recordResult(message.usage);
+          }
+
+          closeTextParts(controller);
+
+          const finishReason = mapAmpFinishReason(message.subtype);
 
-          controller.close();
-        } catch (error: unknown) {
           controller.enqueue({
-            type: 'error',
-            error: self.handleAmpError(error, messagesPrompt),
+            type: 'finish',
+            finishReason,
+            usage: usageCollector.usage(),
+            providerMetadata: {
+              'amp-sdk': {
+                sessionId: sessionId as JSONValue,
+                ...('total_cost_usd' in message && typeof (message as { total_cost_usd?: number }).total_cost_usd === 'number' && {
+                  costUsd: (message as { total_cost_usd?: number }).total_cost_usd as JSONValue,
+                }),
+                ...(message.duration_ms !== undefined && { durationMs: message.duration_ms as JSONValue }),
+                ...(message.num_turns !== undefined && { numTurns: message.num_turns as JSONValue }),
+                ...callMetadata(),
+              },
+            },
           });
-          controller.close();
+        } else {
+          throw self.createResultError(message, { ...promptExcerpt, ...progress() }, redact);
         }
+      }
+
+      return false;
+    };
+
+    // Stop the Amp subprocess and release the iterator; safe to call more than once
+    function stopExecution(reason?: unknown) {
+      timeouts?.clear();
+      unlink?.();
+      if (abortController && !abortController.signal.aborted) {
+        abortController.abort(reason);
+      }
+      iterator?.return?.().catch(() => {});
+    }
+
+    const stream = new ReadableStream<LanguageModelV2StreamPart>({
+      start(controller) {
+        // Always emit stream-start for consistent stream lifecycle
+        controller.enqueue({
+          type: 'stream-start',
+          warnings: self.redactWarnings(warnings, redact),
+        });
+      },
+
+      async pull(controller) {
+        // Pull Amp messages on demand until at least one part is ready,
+        // so a slow consumer pauses the run instead of buffering it
+        let emitted = false;
+        const sink: PartSink = {
+          enqueue: (part) => {
+            emitted = true;
+            if (part.type === 'finish' && part.providerMetadata) {
+              transcript?.recordMetadata(part.providerMetadata);
+            }
+            controller.enqueue(part);
+          },
+        };
+
+        for (;;) {
+          try {
+            if (!iterator) {
+              // Once Amp has reported a session, retries continue that thread instead of starting over
+              const resumeSessionId = attempts.length > 0 ? sessionId : undefined;
+              attempts.push({
+                attempt: attempts.length + 1,
+                ...(resumeSessionId && { resumedSessionId: resumeSessionId }),
+              });
+              // Don't start an execution once the provider budget is used up
+              costTracker.beginAttempt();
+              const exhausted = costTracker.exceeded();
+              if (exhausted) {
+                throw budgetError(exhausted);
+              }
+              ({ abortController, unlink } = self.linkAbortSignal(options.abortSignal));
+              timeoutError = undefined;
+              timeouts = self.startTimeouts(
+                settings,
+                redact,
+                logger,
+                (error) => {
+                  timeoutError = error;
+                  stopExecution(error);
+                },
+                progress
+              );
+              const attemptPrompt = resumeSessionId ? retryPolicy.continuePrompt : ampPrompt;
+              transcript?.recordPrompt(attemptPrompt);
+              iterator = execute({
+                prompt: attemptPrompt,
+                options: resumeSessionId ? { ...ampOptions, continue: resumeSessionId } : ampOptions,
+                signal: abortController.signal,
+              })[Symbol.asyncIterator]();
+            }
+
+            while (!emitted) {
+              // The idle timer only runs while waiting on Amp, not on a slow consumer
+              timeouts?.startIdle();
+              const { done, value: message } = await iterator.next();
+              timeouts?.stopIdle();
+              if (timeoutError) {
+                throw timeoutError;
+              }
+              if (options.abortSignal?.aborted) {
+                throw options.abortSignal.reason;
+              }
+              if (done) {
+                timeouts?.clear();
+                unlink?.();
+                await endCall();
+                controller.close();
+                return;
+              }
+              transcript?.recordMessage(message);
+              if (options.includeRawChunks) {
+                sink.enqueue({ type: 'raw', rawValue: message });
+              }
+              if (handleMessage(message, sink)) {
+                await endCall();
+                controller.close();
+                return;
+              }
+            }
+            return;
+          } catch (error: unknown) {
+            // cancel() already stopped Amp and ended the call; the rejection is expected
+            if (cancelled) return;
+            stopExecution(error);
+            let streamError =
+              timeoutError ??
+              (options.abortSignal?.aborted
+                ? abortError(options.abortSignal)
+                : toAmpError(error, { ...promptExcerpt, ...progress() }, redact));
+
+            const delayMs = isAmpError(streamError)
+              ? planRetry(retryPolicy, attempts, streamError)
+              : undefined;
+            if (delayMs !== undefined) {
+              logger.warn(
+                `[amp-sdk] Attempt ${attempts.length} failed: ${streamError.message}. Retrying in ${delayMs}ms`
+              );
+              iterator = undefined;
+              const resumed = await waitForRetry(delayMs, options.abortSignal).then(
+                () => true,
+                () => false
+              );
+              if (cancelled) return;
+              if (resumed) continue;
+              streamError = abortError(options.abortSignal!);
+            }
+
+            self.handleAmpError(streamError, promptExcerpt, redact, logger);
+            await endCall();
+            controller.enqueue({
+              type: 'error',
+              error: streamError,
+            });
+            controller.close();
+            return;
+          }
+        }
+      },
+
+      cancel(reason) {
+        cancelled = true;
+        logger.debug('[amp-sdk] Stream cancelled by consumer, stopping Amp execution');
+        stopExecution(reason);
+        return endCall();
       },
     });
 
     return {
       stream,
       request: {
-        body: messagesPrompt,
+        body: redact(ampPrompt),
       },
     };
   }
@@ -49,6 +49,12 @@ describe('AmpProvider', () => {
         });
       }).toThrow('Invalid default settings');
     });
+
+    it('should validate the provider cost budget', () => {
+      expect(() => createAmp({ maxCostUsd: -5 })).toThrow(
+        'Invalid provider settings: maxCostUsd must be a positive number'
+      );
+    });
   });
 
   describe('default amp instance', () => {
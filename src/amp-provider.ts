@@ -1,9 +1,13 @@
-import type { LanguageModelV2, ProviderV2 } from '@ai-sdk/provider';
+import type { ProviderV2 } from '@ai-sdk/provider';
 import { NoSuchModelError } from '@ai-sdk/provider';
 import { AmpLanguageModel, type AmpModelId } from './amp-language-model.js';
 import type { AmpSettings } from './types.js';
 import { validateSettings } from './validation.js';
 import { getLogger } from './logger.js';
+import { createPreflight } from './health.js';
+import { createCostBudget } from './budget.js';
+import { createThreadHistory } from './thread-history.js';
+import { createThreadLocks } from './thread-lock.js';
 
 /**
  * Amp provider interface that extends the AI SDK's ProviderV2.
@@ -30,7 +34,7 @@ export interface AmpProvider extends ProviderV2 {
    * @param settings - Optional settings to configure the model
    * @returns A language model instance
    */
-  (modelId: AmpModelId, settings?: AmpSettings): LanguageModelV2;
+  (modelId: AmpModelId, settings?: AmpSettings): AmpLanguageModel;
 
   /**
    * Creates a language model instance for text generation.
@@ -39,7 +43,7 @@ export interface AmpProvider extends ProviderV2 {
    * @param settings - Optional settings to configure the model
    * @returns A language model instance
    */
-  languageModel(modelId: AmpModelId, settings?: AmpSettings): LanguageModelV2;
+  languageModel(modelId: AmpModelId, settings?: AmpSettings): AmpLanguageModel;
 
   /**
    * Alias for `languageModel()` to maintain compatibility with AI SDK patterns.
@@ -48,7 +52,7 @@ export interface AmpProvider extends ProviderV2 {
    * @param settings - Optional settings to configure the model
    * @returns A language model instance
    */
-  chat(modelId: AmpModelId, settings?: AmpSettings): LanguageModelV2;
+  chat(modelId: AmpModelId, settings?: AmpSettings): AmpLanguageModel;
 
   imageModel(modelId: string): never;
 }
@@ -73,6 +77,13 @@ export interface AmpProviderSettings {
    * Individual model settings will override these defaults.
    */
   defaultSettings?: AmpSettings;
+
+  /**
+   * Total cost budget in USD for every call made through this provider.
+   * Once it is used up, running calls stop and new calls fail with an
+   * `AmpBudgetExceededError`. Per-call limits use `maxCostUsd` in the settings.
+   */
+  maxCostUsd?: number;
 }
 
 /**
@@ -109,7 +120,25 @@ export function createAmp(options: AmpProviderSettings = {}): AmpProvider {
     }
   }
 
-  const createModel = (modelId: AmpModelId, settings: AmpSettings = {}): LanguageModelV2 => {
+  if (
+    options.maxCostUsd !== undefined &&
+    (typeof options.maxCostUsd !== 'number' ||
+      !Number.isFinite(options.maxCostUsd) ||
+      options.maxCostUsd <= 0)
+  ) {
+    throw new Error('Invalid provider settings: maxCostUsd must be a positive number');
+  }
+
+  // Shared by all models so `preflight` checks each configuration once per provider
+  const preflight = createPreflight();
+  const costBudget =
+    options.maxCostUsd !== undefined ? createCostBudget(options.maxCostUsd) : undefined;
+  // Lets any model of the provider send only new messages to threads the provider ran
+  const threadHistory = createThreadHistory();
+  // Serializes calls on one thread across the models of the provider
+  const threadLocks = createThreadLocks();
+
+  const createModel = (modelId: AmpModelId, settings: AmpSettings = {}): AmpLanguageModel => {
     const mergedSettings = {
       ...options.defaultSettings,
       ...settings,
@@ -125,6 +154,10 @@ export function createAmp(options: AmpProviderSettings = {}): AmpProvider {
       id: modelId,
       settings: mergedSettings,
       settingsValidationWarnings: validation.warnings,
+      preflight,
+      costBudget,
+      threadHistory,
+      threadLocks,
     });
   };
 
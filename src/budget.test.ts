@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COST_RATES,
+  createCostBudget,
+  createCostTracker,
+  estimateTurnCost,
+  formatBudgetMessage,
+} from './budget.js';
+
+const turn = (outputTokens: number) => ({ input_tokens: 0, output_tokens: outputTokens });
+
+describe('budget', () => {
+  describe('estimateTurnCost', () => {
+    it('should price each kind of token', () => {
+      const cost = estimateTurnCost(
+        {
+          input_tokens: 1_000_000,
+          output_tokens: 1_000_000,
+          cache_creation_input_tokens: 1_000_000,
+          cache_read_input_tokens: 1_000_000,
+        },
+        DEFAULT_COST_RATES
+      );
+
+      expect(cost).toBeCloseTo(3 + 15 + 3.75 + 0.3);
+    });
+  });
+
+  describe('createCostTracker', () => {
+    it('should replace the estimate of a repeated message ID', () => {
+      const tracker = createCostTracker({ rates: { outputPerMillionTokens: 1 } });
+
+      tracker.recordTurn('msg-1', turn(100_000));
+      tracker.recordTurn('msg-1', turn(200_000));
+      tracker.recordTurn('msg-2', turn(100_000));
+
+      expect(tracker.costUsd).toBeCloseTo(0.3);
+    });
+
+    it('should replace estimates with the reported cost and keep earlier attempts', () => {
+      const tracker = createCostTracker({ rates: { outputPerMillionTokens: 1 } });
+
+      tracker.beginAttempt();
+      tracker.recordTurn('msg-1', turn(500_000));
+      tracker.beginAttempt();
+      tracker.recordTurn('msg-2', turn(500_000));
+      tracker.recordTotal(0.25);
+
+      expect(tracker.costUsd).toBeCloseTo(0.75);
+    });
+
+    it('should report the call budget once it is reached', () => {
+      const tracker = createCostTracker({ maxCostUsd: 0.5, rates: { outputPerMillionTokens: 1 } });
+
+      tracker.recordTurn('msg-1', turn(400_000));
+      expect(tracker.exceeded()).toBeUndefined();
+
+      tracker.recordTurn('msg-2', turn(100_000));
+      expect(tracker.exceeded()).toEqual({ scope: 'call', limitUsd: 0.5, spentUsd: 0.5 });
+    });
+
+    it('should share the provider budget between calls', () => {
+      const budget = createCostBudget(1);
+      const first = createCostTracker({ budget, rates: { outputPerMillionTokens: 1 } });
+      const second = createCostTracker({ budget, rates: { outputPerMillionTokens: 1 } });
+
+      first.recordTurn('msg-1', turn(600_000));
+      second.recordTurn('msg-2', turn(300_000));
+      expect(second.exceeded()).toBeUndefined();
+
+      first.recordTotal(0.8);
+      expect(budget.spentUsd).toBeCloseTo(1.1);
+      expect(second.exceeded()).toMatchObject({ scope: 'provider', limitUsd: 1 });
+    });
+  });
+
+  describe('formatBudgetMessage', () => {
+    it('should name the budget that was reached', () => {
+      expect(formatBudgetMessage({ scope: 'provider', limitUsd: 5, spentUsd: 5.01234 })).toBe(
+        'Provider cost budget of $5 reached ($5.0123 spent)'
+      );
+    });
+  });
+});
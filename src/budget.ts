@@ -0,0 +1,182 @@
+import type { Usage } from '@sourcegraph/amp-sdk';
+import type { AmpCostRates } from './types.js';
+
+/**
+ * Default token prices, matching Amp's default Claude Sonnet model.
+ */
+export const DEFAULT_COST_RATES: AmpCostRates = {
+  inputPerMillionTokens: 3,
+  outputPerMillionTokens: 15,
+  cacheWritePerMillionTokens: 3.75,
+  cacheReadPerMillionTokens: 0.3,
+};
+
+/**
+ * Spending limit shared by every call made through one provider.
+ */
+export interface CostBudget {
+  /**
+   * Budget in USD
+   */
+  readonly limitUsd: number;
+
+  /**
+   * Cost recorded so far in USD
+   */
+  readonly spentUsd: number;
+
+  /**
+   * Records a cost, or corrects an earlier estimate when negative.
+   */
+  add(usd: number): void;
+}
+
+/**
+ * A budget that has been reached.
+ * - `call`: the call's own `maxCostUsd`
+ * - `provider`: the provider's `maxCostUsd`, shared by all calls
+ */
+export interface BudgetExceeded {
+  scope: 'call' | 'provider';
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/**
+ * Tracks the running cost of one call and checks it against its budgets.
+ */
+export interface CostTracker {
+  /**
+   * Cost of the call so far in USD; estimated until Amp reports the actual cost
+   */
+  readonly costUsd: number;
+
+  /**
+   * Starts a new Amp execution; the previous one's cost is kept.
+   */
+  beginAttempt(): void;
+
+  /**
+   * Records a turn's usage. A message ID seen before replaces that turn's estimate.
+   */
+  recordTurn(messageId: string, usage: Usage): void;
+
+  /**
+   * Replaces the current execution's estimates with the cost Amp reported.
+   */
+  recordTotal(totalCostUsd: number): void;
+
+  /**
+   * Returns the first budget that has been reached, if any.
+   */
+  exceeded(): BudgetExceeded | undefined;
+}
+
+/**
+ * Creates a provider-wide budget.
+ *
+ * @param limitUsd - Budget in USD
+ * @returns The shared budget
+ */
+export function createCostBudget(limitUsd: number): CostBudget {
+  let spentUsd = 0;
+  return {
+    limitUsd,
+    get spentUsd() {
+      return spentUsd;
+    },
+    add(usd) {
+      spentUsd = Math.max(0, spentUsd + usd);
+    },
+  };
+}
+
+/**
+ * Estimates the cost of one turn from its token usage.
+ *
+ * @param usage - Usage reported on the assistant message
+ * @param rates - Token prices
+ * @returns Estimated cost in USD
+ */
+export function estimateTurnCost(usage: Usage, rates: AmpCostRates): number {
+  return (
+    ((usage.input_tokens ?? 0) * rates.inputPerMillionTokens +
+      (usage.output_tokens ?? 0) * rates.outputPerMillionTokens +
+      (usage.cache_creation_input_tokens ?? 0) * rates.cacheWritePerMillionTokens +
+      (usage.cache_read_input_tokens ?? 0) * rates.cacheReadPerMillionTokens) /
+    1_000_000
+  );
+}
+
+/**
+ * Creates the cost tracker for one call.
+ *
+ * @param options - The call's budget, token prices and the provider's shared budget
+ * @returns The cost tracker
+ */
+export function createCostTracker(options: {
+  maxCostUsd?: number;
+  rates?: Partial<AmpCostRates>;
+  budget?: CostBudget;
+}): CostTracker {
+  const rates = { ...DEFAULT_COST_RATES, ...options.rates };
+  const { maxCostUsd, budget } = options;
+
+  // Cost of finished executions, and of the current one
+  let settledUsd = 0;
+  let turnCosts = new Map<string, number>();
+  let reportedUsd: number | undefined;
+
+  const attemptCost = () => {
+    if (reportedUsd !== undefined) return reportedUsd;
+    let total = 0;
+    for (const cost of turnCosts.values()) total += cost;
+    return total;
+  };
+
+  return {
+    get costUsd() {
+      return settledUsd + attemptCost();
+    },
+
+    beginAttempt() {
+      settledUsd += attemptCost();
+      turnCosts = new Map();
+      reportedUsd = undefined;
+    },
+
+    recordTurn(messageId, usage) {
+      if (reportedUsd !== undefined) return;
+      const cost = estimateTurnCost(usage, rates);
+      budget?.add(cost - (turnCosts.get(messageId) ?? 0));
+      turnCosts.set(messageId, cost);
+    },
+
+    recordTotal(totalCostUsd) {
+      budget?.add(totalCostUsd - attemptCost());
+      reportedUsd = totalCostUsd;
+    },
+
+    exceeded() {
+      const costUsd = settledUsd + attemptCost();
+      if (maxCostUsd !== undefined && costUsd >= maxCostUsd) {
+        return { scope: 'call', limitUsd: maxCostUsd, spentUsd: costUsd };
+      }
+      if (budget && budget.spentUsd >= budget.limitUsd) {
+        return { scope: 'provider', limitUsd: budget.limitUsd, spentUsd: budget.spentUsd };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Describes a reached budget for errors and log messages.
+ *
+ * @param exceeded - The budget that was reached
+ * @returns A human-readable message
+ */
+export function formatBudgetMessage(exceeded: BudgetExceeded): string {
+  const scope = exceeded.scope === 'call' ? 'Call' : 'Provider';
+  return `${scope} cost budget of $${exceeded.limitUsd} reached ($${exceeded.spentUsd.toFixed(4)} spent)`;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { convertToAmpMessages } from './convert-to-amp-messages.js';
+
+describe('convertToAmpMessages', () => {
+  it('should convert system, user and assistant messages', () => {
+    const result = convertToAmpMessages([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+      { role: 'assistant', content: [{ type: 'text', text: 'Hi!' }] },
+    ]);
+    expect(result).toBe('System: Be brief.\n\nHello\n\nAssistant: Hi!');
+  });
+
+  describe('custom prompt', () => {
+    it('should place the custom prompt before system messages', () => {
+      const result = convertToAmpMessages(
+        [
+          { role: 'system', content: 'Answer in French.' },
+          { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+        ],
+        undefined,
+        'Follow the house style guide.'
+      );
+      expect(result).toBe(
+        'System: Follow the house style guide.\n\nSystem: Answer in French.\n\nHello'
+      );
+    });
+
+    it('should place the custom prompt before JSON mode instructions', () => {
+      const result = convertToAmpMessages(
+        [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        { type: 'json' },
+        'Follow the house style guide.'
+      );
+      expect(result.startsWith('System: Follow the house style guide.\n\nIMPORTANT:')).toBe(true);
+    });
+
+    it('should ignore an empty custom prompt', () => {
+      const result = convertToAmpMessages(
+        [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        undefined,
+        '   '
+      );
+      expect(result).toBe('Hello');
+    });
+  });
+});
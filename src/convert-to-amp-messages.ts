@@ -3,16 +3,27 @@ import type { LanguageModelV2Prompt } from '@ai-sdk/provider';
 /**
  * Converts AI SDK v5 prompt to Amp SDK prompt format.
  *
+ * The custom prompt (`AmpSettings.prompt`) is placed first as a standing system
+ * instruction, followed by JSON mode instructions and then the transcript. System
+ * messages from the AI SDK prompt therefore come later and can refine it per call.
+ *
  * @param prompt - AI SDK v5 prompt
  * @param responseFormat - Response format configuration
+ * @param customPrompt - Standing instructions from settings
  * @returns Amp SDK prompt string
  */
 export function convertToAmpMessages(
   prompt: LanguageModelV2Prompt,
-  responseFormat?: { type: 'json' | 'text'; schema?: unknown }
+  responseFormat?: { type: 'json' | 'text'; schema?: unknown },
+  customPrompt?: string
 ): string {
   const messages: string[] = [];
 
+  // Standing instructions from settings precede everything else
+  if (customPrompt && customPrompt.trim() !== '') {
+    messages.push(`System: ${customPrompt.trim()}`);
+  }
+
   // If JSON mode is requested, add instructions at the beginning
   if (responseFormat?.type === 'json') {
     messages.push(
@@ -27,15 +38,8 @@ export function convertToAmpMessages(
   for (const message of prompt) {
     if (message.role === 'system') {
       // System messages are included as part of the prompt
-      for (const part of message.content) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const p = part as any;
-        if (typeof part === 'string') {
-          messages.push(`System: ${part}`);
-        } else if (p.type === 'text') {
-          messages.push(`System: ${p.text}`);
-        }
-      }
+      // (LanguageModelV2 system content is a plain string)
+      messages.push(`System: ${message.content}`);
     } else if (message.role === 'user') {
       // User messages
       const userParts: string[] = [];
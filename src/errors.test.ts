@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { APICallError, LoadAPIKeyError } from '@ai-sdk/provider';
+import {
+  AmpAbortedError,
+  AmpAuthenticationError,
+  AmpCliNotFoundError,
+  AmpExecutionError,
+  AmpMaxTurnsError,
+  AmpPermissionDeniedError,
+  AmpThreadBusyError,
+  AmpTimeoutError,
+  STDERR_TAIL_LINES,
+  createAPICallError,
+  createAuthenticationError,
+  createTimeoutError,
+  getErrorMetadata,
+  isAmpError,
+  isAuthenticationError,
+  isTimeoutError,
+  toAmpError,
+} from './errors.js';
+
+describe('errors', () => {
+  describe('error classes', () => {
+    it('should stay compatible with APICallError', () => {
+      const error = new AmpMaxTurnsError({
+        message: 'max turns reached',
+        metadata: { sessionId: 'T-1', numTurns: 3 },
+      });
+
+      expect(error).toBeInstanceOf(APICallError);
+      expect(APICallError.isInstance(error)).toBe(true);
+      expect(error.name).toBe('AmpMaxTurnsError');
+      expect(error.kind).toBe('max-turns');
+      expect(error.url).toBe('amp-sdk');
+      expect(error.requestBodyValues).toEqual({ sessionId: 'T-1', numTurns: 3 });
+    });
+
+    it('should set status codes and retryability per kind', () => {
+      const options = { message: 'failed' };
+
+      expect(new AmpAuthenticationError(options)).toMatchObject({
+        statusCode: 401,
+        isRetryable: false,
+      });
+      expect(new AmpPermissionDeniedError(options)).toMatchObject({
+        statusCode: 403,
+        isRetryable: false,
+      });
+      expect(new AmpMaxTurnsError(options).isRetryable).toBe(false);
+      expect(new AmpCliNotFoundError(options).isRetryable).toBe(false);
+      expect(new AmpAbortedError(options).isRetryable).toBe(false);
+      expect(new AmpExecutionError(options).isRetryable).toBe(false);
+      expect(new AmpTimeoutError(options).isRetryable).toBe(true);
+      expect(new AmpThreadBusyError(options).isRetryable).toBe(true);
+    });
+
+    it('should return typed errors from the factories', () => {
+      expect(isAmpError(createAPICallError({ message: 'x' }), 'execution')).toBe(true);
+      expect(isAmpError(createAuthenticationError('x'), 'authentication')).toBe(true);
+      expect(isAmpError(createTimeoutError('x'), 'timeout')).toBe(true);
+    });
+  });
+
+  describe('type guards', () => {
+    it('should narrow by kind', () => {
+      const error: unknown = new AmpTimeoutError({ message: 'slow' });
+
+      expect(isAmpError(error)).toBe(true);
+      expect(isAmpError(error, 'timeout')).toBe(true);
+      expect(isAmpError(error, 'execution')).toBe(false);
+    });
+
+    it('should reject errors not raised by the provider', () => {
+      const error = new APICallError({
+        message: 'timeout',
+        url: 'amp-sdk',
+        requestBodyValues: {},
+        statusCode: 401,
+        isRetryable: true,
+      });
+
+      expect(isAmpError(error)).toBe(false);
+      expect(isAmpError(new Error('boom'))).toBe(false);
+      expect(isAmpError(null)).toBe(false);
+      expect(isTimeoutError(error)).toBe(false);
+      expect(isAuthenticationError(error)).toBe(false);
+    });
+
+    it('should detect authentication and timeout errors', () => {
+      expect(isAuthenticationError(createAuthenticationError('denied'))).toBe(true);
+      expect(isAuthenticationError(new LoadAPIKeyError({ message: 'missing' }))).toBe(true);
+      expect(isTimeoutError(createTimeoutError('Amp execution timeout: exceeded 10ms'))).toBe(true);
+      expect(isTimeoutError(new AmpExecutionError({ message: 'timeout' }))).toBe(false);
+    });
+  });
+
+  describe('toAmpError', () => {
+    it('should pass Amp errors through unchanged', () => {
+      const error = new AmpMaxTurnsError({ message: 'limit' });
+      expect(toAmpError(error, { prompt: 'p' })).toBe(error);
+    });
+
+    it('should classify SDK and process failures', () => {
+      const abort = new Error('The operation was aborted');
+      abort.name = 'AbortError';
+      const enoent = Object.assign(new Error('spawn node ENOENT'), { code: 'ENOENT' });
+
+      expect(toAmpError(abort).kind).toBe('aborted');
+      expect(toAmpError(new Error('Amp CLI process was aborted')).kind).toBe('aborted');
+      expect(toAmpError(enoent).kind).toBe('cli-not-found');
+      expect(
+        toAmpError(
+          new Error('Could not find local @sourcegraph/amp package. Make sure it is installed.')
+        ).kind
+      ).toBe('cli-not-found');
+      expect(toAmpError(new Error('401 Unauthorized')).kind).toBe('authentication');
+      expect(toAmpError(new Error('EACCES: permission denied, open /x')).kind).toBe(
+        'permission-denied'
+      );
+      expect(toAmpError('something broke').kind).toBe('execution');
+    });
+
+    it('should recognize the CLI reporting missing credentials on stderr', () => {
+      const error = toAmpError(
+        new Error("Amp CLI process exited with code 1: Not logged in. Run 'amp login' first.")
+      );
+
+      expect(error.kind).toBe('authentication');
+    });
+
+    it('should not classify by what tools printed on stderr', () => {
+      const edited = toAmpError(
+        new Error('Amp CLI process exited with code 1: Failed to edit src/authentication.ts')
+      );
+      const denied = toAmpError(
+        new Error('Amp CLI process exited with code 1: bash: ./deploy.sh: Permission denied')
+      );
+      const rejected = toAmpError(
+        new Error('Amp CLI process exited with code 1: curl: (22) 401 Unauthorized')
+      );
+
+      expect(edited.kind).toBe('execution');
+      expect(denied.kind).toBe('execution');
+      expect(rejected.kind).toBe('execution');
+      expect(toAmpError(new Error('Operation not permitted')).kind).toBe('execution');
+    });
+
+    it('should mark crashed CLI processes as retryable', () => {
+      const crashed = toAmpError(new Error('Amp CLI process was killed by signal SIGKILL'));
+      const failed = toAmpError(new Error('Amp CLI process exited with code 1: bad input'));
+
+      expect(crashed).toMatchObject({ kind: 'execution', isRetryable: true });
+      expect(failed).toMatchObject({ kind: 'execution', isRetryable: false });
+    });
+
+    it('should attach metadata and the original message', () => {
+      const cause = new Error('boom');
+      const error = toAmpError(cause, { sessionId: 'T-1', prompt: 'hello' });
+
+      expect(error.cause).toBe(cause);
+      expect(getErrorMetadata(error)).toEqual({
+        originalError: 'boom',
+        sessionId: 'T-1',
+        prompt: 'hello',
+      });
+    });
+    it('should extract the exit code and the stderr tail of a failed CLI process', () => {
+      const stderr = Array.from({ length: STDERR_TAIL_LINES + 5 }, (_, i) => `line ${i + 1}`);
+      const error = toAmpError(
+        new Error(`Amp CLI process exited with code 1: ${stderr.join('\n')}\n`)
+      );
+
+      const metadata = getErrorMetadata(error);
+      expect(metadata?.exitCode).toBe(1);
+      expect(metadata?.stderrTail?.split('\n')).toEqual(stderr.slice(-STDERR_TAIL_LINES));
+    });
+
+    it('should extract the signal of a killed CLI process', () => {
+      const error = toAmpError(new Error('Amp CLI process was killed by signal SIGTERM'));
+
+      expect(getErrorMetadata(error)).toMatchObject({ exitSignal: 'SIGTERM' });
+      expect(getErrorMetadata(error)?.exitCode).toBeUndefined();
+    });
+  });
+});
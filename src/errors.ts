@@ -1,4 +1,5 @@
 import { APICallError, LoadAPIKeyError } from '@ai-sdk/provider';
+import { noRedaction, redactError, redactStrings, type Redactor } from './redaction.js';
 
 /**
  * Metadata associated with Amp errors.
@@ -29,25 +30,274 @@ export interface AmpErrorMetadata {
    * Number of conversation turns completed
    */
   numTurns?: number;
+
+  /**
+   * Text generated before the execution stopped
+   */
+  partialText?: string;
+
+  /**
+   * Last lines the Amp CLI wrote to stderr before exiting
+   */
+  stderrTail?: string;
+
+  /**
+   * Exit code of the Amp CLI process
+   */
+  exitCode?: number;
+
+  /**
+   * Signal that terminated the Amp CLI process
+   */
+  exitSignal?: string;
+
+  /**
+   * Most recent tool Amp called before the failure
+   */
+  lastTool?: string;
+
+  /**
+   * Text of the last assistant message before the failure
+   */
+  lastAssistantText?: string;
+
+  /**
+   * Cost of the call in USD when it stopped; estimated from token usage
+   */
+  costUsd?: number;
 }
 
 /**
- * Creates an API call error with Amp-specific metadata.
- *
- * @param options - Error options
- * @returns An APICallError instance
+ * Number of stderr lines kept in {@link AmpErrorMetadata.stderrTail}.
+ */
+export const STDERR_TAIL_LINES = 20;
+
+/**
+ * Kinds of failure raised by the Amp provider.
+ */
+export type AmpErrorKind =
+  | 'authentication'
+  | 'max-turns'
+  | 'execution'
+  | 'cli-not-found'
+  | 'permission-denied'
+  | 'aborted'
+  | 'timeout'
+  | 'budget-exceeded'
+  | 'thread-busy';
+
+/**
+ * Options shared by all Amp error constructors.
  */
-export function createAPICallError(options: {
+export interface AmpErrorOptions {
+  /**
+   * Error message
+   */
   message: string;
+
+  /**
+   * Original error cause
+   */
   cause?: unknown;
+
+  /**
+   * Structured context about the failed execution
+   */
   metadata?: AmpErrorMetadata;
-}): APICallError {
-  return new APICallError({
-    message: options.message,
-    url: 'amp-sdk',
-    requestBodyValues: options.metadata || {},
-    cause: options.cause,
-  });
+
+  /**
+   * Masks secrets in the message, metadata and cause before they are stored
+   */
+  redact?: Redactor;
+}
+
+const ampErrorSymbol: unique symbol = Symbol.for('ai-sdk-provider-amp-sdk.error');
+
+/**
+ * Base class for errors raised by the Amp provider.
+ * Every Amp error is an `APICallError`, so AI SDK retry handling and
+ * `APICallError.isInstance` keep working.
+ */
+export abstract class AmpError extends APICallError {
+  protected readonly [ampErrorSymbol] = true;
+
+  /**
+   * Discriminant identifying the failure
+   */
+  abstract readonly kind: AmpErrorKind;
+
+  /**
+   * Structured context about the failed execution
+   */
+  readonly metadata: AmpErrorMetadata;
+
+  protected constructor(
+    name: string,
+    options: AmpErrorOptions & { statusCode?: number; isRetryable?: boolean }
+  ) {
+    const redact = options.redact ?? noRedaction;
+    const metadata = redactStrings(options.metadata || {}, redact);
+    super({
+      message: redact(options.message),
+      url: 'amp-sdk',
+      requestBodyValues: metadata,
+      statusCode: options.statusCode,
+      isRetryable: options.isRetryable ?? false,
+      cause: redactError(options.cause, redact),
+    });
+    this.name = name;
+    this.metadata = metadata;
+  }
+}
+
+/**
+ * Amp rejected the credentials, or none were configured.
+ */
+export class AmpAuthenticationError extends AmpError {
+  readonly kind = 'authentication' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpAuthenticationError', { ...options, statusCode: 401 });
+  }
+}
+
+/**
+ * Amp stopped because the run reached its turn limit.
+ */
+export class AmpMaxTurnsError extends AmpError {
+  readonly kind = 'max-turns' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpMaxTurnsError', options);
+  }
+}
+
+/**
+ * Amp failed while executing the request.
+ * Retryable when the CLI process died without reporting a result.
+ */
+export class AmpExecutionError extends AmpError {
+  readonly kind = 'execution' as const;
+
+  constructor(options: AmpErrorOptions & { isRetryable?: boolean }) {
+    super('AmpExecutionError', options);
+  }
+}
+
+/**
+ * The Amp CLI binary could not be located or started.
+ */
+export class AmpCliNotFoundError extends AmpError {
+  readonly kind = 'cli-not-found' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpCliNotFoundError', options);
+  }
+}
+
+/**
+ * Amp was denied permission to run a tool or access a resource.
+ */
+export class AmpPermissionDeniedError extends AmpError {
+  readonly kind = 'permission-denied' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpPermissionDeniedError', { ...options, statusCode: 403 });
+  }
+}
+
+/**
+ * The Amp execution was aborted before it finished.
+ * Named `AbortError` so it is treated like any other aborted request; the
+ * metadata keeps the session ID and partial text for resuming the thread.
+ */
+export class AmpAbortedError extends AmpError {
+  readonly kind = 'aborted' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AbortError', options);
+  }
+}
+
+/**
+ * The Amp execution exceeded `timeoutMs` or `idleTimeoutMs`.
+ */
+export class AmpTimeoutError extends AmpError {
+  readonly kind = 'timeout' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpTimeoutError', { ...options, isRetryable: true });
+  }
+}
+
+/**
+ * The call, or the provider as a whole, reached its `maxCostUsd` budget.
+ */
+export class AmpBudgetExceededError extends AmpError {
+  readonly kind = 'budget-exceeded' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpBudgetExceededError', options);
+  }
+}
+
+/**
+ * The call resumes a thread another call is running, and `threadConcurrency` is `'reject'`.
+ * Retryable, since the thread is free again once the other call finishes.
+ */
+export class AmpThreadBusyError extends AmpError {
+  readonly kind = 'thread-busy' as const;
+
+  constructor(options: AmpErrorOptions) {
+    super('AmpThreadBusyError', { ...options, isRetryable: true });
+  }
+}
+
+/**
+ * Maps each error kind to its class, used to narrow {@link isAmpError}.
+ */
+export interface AmpErrorByKind {
+  authentication: AmpAuthenticationError;
+  'max-turns': AmpMaxTurnsError;
+  execution: AmpExecutionError;
+  'cli-not-found': AmpCliNotFoundError;
+  'permission-denied': AmpPermissionDeniedError;
+  aborted: AmpAbortedError;
+  timeout: AmpTimeoutError;
+  'budget-exceeded': AmpBudgetExceededError;
+  'thread-busy': AmpThreadBusyError;
+}
+
+/**
+ * Checks if an error was raised by the Amp provider, optionally of a given kind.
+ * Works across duplicated package copies, unlike `instanceof`.
+ *
+ * @param error - The error to check
+ * @param kind - Restrict the match to one kind of failure
+ * @returns true if the error is an Amp error (of that kind)
+ */
+export function isAmpError<K extends AmpErrorKind = AmpErrorKind>(
+  error: unknown,
+  kind?: K
+): error is AmpErrorByKind[K] {
+  if (
+    typeof error !== 'object' ||
+    error === null ||
+    (error as { [ampErrorSymbol]?: unknown })[ampErrorSymbol] !== true
+  ) {
+    return false;
+  }
+  return kind === undefined || (error as AmpError).kind === kind;
+}
+
+/**
+ * Creates an API call error with Amp-specific metadata.
+ *
+ * @param options - Error options
+ * @returns An AmpExecutionError instance
+ */
+export function createAPICallError(options: AmpErrorOptions): AmpExecutionError {
+  return new AmpExecutionError(options);
 }
 
 /**
@@ -55,18 +305,17 @@ export function createAPICallError(options: {
  *
  * @param message - Error message
  * @param cause - Original error cause
- * @returns An APICallError instance
+ * @param metadata - Context about the failed execution
+ * @returns An AmpAuthenticationError instance
  */
-export function createAuthenticationError(message: string, cause?: unknown): APICallError {
+export function createAuthenticationError(
+  message: string,
+  cause?: unknown,
+  metadata?: AmpErrorMetadata
+): AmpAuthenticationError {
   const enhancedMessage = `${message}\n\nTo authenticate with Amp, you can either:\n1. Set AMP_API_KEY environment variable: export AMP_API_KEY=sgamp_your_key\n2. Run 'amp login' to store credentials locally\n\nGet your API key from https://ampcode.com/settings`;
-  
-  return new APICallError({
-    message: enhancedMessage,
-    url: 'amp-sdk',
-    requestBodyValues: {},
-    statusCode: 401,
-    cause,
-  });
+
+  return new AmpAuthenticationError({ message: enhancedMessage, cause, metadata });
 }
 
 /**
@@ -74,15 +323,110 @@ export function createAuthenticationError(message: string, cause?: unknown): API
  *
  * @param message - Error message
  * @param cause - Original error cause
- * @returns An APICallError instance
+ * @param metadata - Progress of the execution when it timed out
+ * @returns An AmpTimeoutError instance
+ */
+export function createTimeoutError(
+  message: string,
+  cause?: unknown,
+  metadata?: AmpErrorMetadata
+): AmpTimeoutError {
+  return new AmpTimeoutError({ message, cause, metadata });
+}
+
+// Matched against the SDK's own message, never against the CLI's stderr
+const AUTHENTICATION_PATTERN =
+  /\bunauthorized\b|invalid api key|not authenticated|authentication (?:failed|required)|not logged in/i;
+const PERMISSION_DENIED_PATTERN = /permission denied|EACCES/i;
+// Printed by the Amp CLI itself when it has no usable credentials; stderr also carries
+// whatever the agent's tools printed, so only these are trusted there
+const CLI_AUTHENTICATION_PATTERN = /not logged in|run [`'"]?amp login|invalid api key/i;
+const CLI_NOT_FOUND_PATTERN =
+  /could not find local @sourcegraph\/amp|no bin entry for amp cli/i;
+const EXIT_CODE_PATTERN = /^Amp CLI process exited with code (\d+)(?::\s*([\s\S]*))?$/;
+const EXIT_SIGNAL_PATTERN = /^Amp CLI process was killed by signal (\w+)/;
+
+/**
+ * Extracts the exit code, signal and stderr tail from the SDK's process errors.
+ *
+ * @param message - Error message thrown by the Amp SDK
+ * @returns Process details found in the message
+ */
+function getProcessDetails(
+  message: string
+): Pick<AmpErrorMetadata, 'exitCode' | 'exitSignal' | 'stderrTail'> {
+  const exit = EXIT_CODE_PATTERN.exec(message);
+  if (exit) {
+    const stderr = exit[2]?.trimEnd();
+    return {
+      exitCode: Number(exit[1]),
+      ...(stderr && { stderrTail: stderr.split('\n').slice(-STDERR_TAIL_LINES).join('\n') }),
+    };
+  }
+  const signal = EXIT_SIGNAL_PATTERN.exec(message);
+  return signal ? { exitSignal: signal[1] } : {};
+}
+
+/**
+ * Converts anything thrown while running Amp into a typed Amp error.
+ * Amp errors pass through unchanged; SDK and process failures are classified
+ * once here so callers can rely on {@link isAmpError} instead of inspecting messages.
+ *
+ * @param error - The thrown value
+ * @param metadata - Context about the failed execution
+ * @param redact - Masks secrets in the message, metadata and `cause`
+ * @returns A typed Amp error
  */
-export function createTimeoutError(message: string, cause?: unknown): APICallError {
-  return new APICallError({
+export function toAmpError(
+  error: unknown,
+  metadata: AmpErrorMetadata = {},
+  redact: Redactor = noRedaction
+): AmpError {
+  if (isAmpError(error)) {
+    return error;
+  }
+
+  // Classify on the raw message, store only the redacted one
+  const rawMessage = error instanceof Error ? error.message : String(error);
+  const message = redact(rawMessage);
+  const code = (error as { code?: unknown } | null)?.code;
+  const processDetails = getProcessDetails(rawMessage);
+  // The SDK's own words, without the stderr tail of a failed CLI process
+  const head = EXIT_CODE_PATTERN.test(rawMessage) ? rawMessage.split(':')[0]! : rawMessage;
+  const details = {
+    cause: redactError(error, redact),
+    metadata: redactStrings(
+      { originalError: rawMessage, ...metadata, ...processDetails },
+      redact
+    ),
+  };
+
+  if (
+    (error instanceof Error && error.name === 'AbortError') ||
+    rawMessage === 'Amp CLI process was aborted'
+  ) {
+    return new AmpAbortedError({ message: 'Amp execution was aborted', ...details });
+  }
+  if (code === 'ENOENT' || CLI_NOT_FOUND_PATTERN.test(rawMessage)) {
+    return new AmpCliNotFoundError({ message: `Amp CLI not found: ${message}`, ...details });
+  }
+  if (
+    AUTHENTICATION_PATTERN.test(head) ||
+    CLI_AUTHENTICATION_PATTERN.test(processDetails.stderrTail ?? '')
+  ) {
+    return createAuthenticationError(
+      'Amp authentication failed.',
+      details.cause,
+      details.metadata
+    );
+  }
+  if (code === 'EACCES' || PERMISSION_DENIED_PATTERN.test(head)) {
+    return new AmpPermissionDeniedError({ message, ...details });
+  }
+  return new AmpExecutionError({
     message,
-    url: 'amp-sdk',
-    requestBodyValues: {},
-    isRetryable: true,
-    cause,
+    ...details,
+    isRetryable: /killed by signal|terminated unexpectedly/.test(rawMessage),
   });
 }
 
@@ -93,13 +437,7 @@ export function createTimeoutError(message: string, cause?: unknown): APICallErr
  * @returns true if the error is an authentication error
  */
 export function isAuthenticationError(error: unknown): boolean {
-  if (error instanceof APICallError) {
-    return error.statusCode === 401 || error.statusCode === 403;
-  }
-  if (error instanceof LoadAPIKeyError) {
-    return true;
-  }
-  return false;
+  return isAmpError(error, 'authentication') || LoadAPIKeyError.isInstance(error);
 }
 
 /**
@@ -109,10 +447,7 @@ export function isAuthenticationError(error: unknown): boolean {
  * @returns true if the error is a timeout error
  */
 export function isTimeoutError(error: unknown): boolean {
-  if (error instanceof APICallError) {
-    return error.isRetryable === true && error.message.toLowerCase().includes('timeout');
-  }
-  return false;
+  return isAmpError(error, 'timeout');
 }
 
 /**
@@ -122,6 +457,9 @@ export function isTimeoutError(error: unknown): boolean {
  * @returns Error metadata if available
  */
 export function getErrorMetadata(error: unknown): AmpErrorMetadata | undefined {
+  if (isAmpError(error)) {
+    return error.metadata;
+  }
   if (error instanceof APICallError) {
     return error.requestBodyValues as AmpErrorMetadata | undefined;
   }
@@ -131,6 +469,9 @@ export function getErrorMetadata(error: unknown): AmpErrorMetadata | undefined {
 /**
  * Checks if authentication is likely configured.
  * This is now a no-op since the Amp CLI handles authentication automatically.
+ *
+ * @deprecated Use `checkAmpHealth()` or the `preflight` setting, which report
+ * where credentials come from before any request is made.
  * The CLI will use credentials from either:
  * 1. AMP_API_KEY environment variable (if set)
  * 2. ~/.local/share/amp/secrets.json (from `amp login`)
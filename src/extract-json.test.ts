@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { extractJson, createJsonStreamExtractor } from './extract-json.js';
+
+function streamAll(chunks: string[]): { deltas: string[]; output: string } {
+  const extractor = createJsonStreamExtractor();
+  const deltas = chunks.map((chunk) => extractor.push(chunk));
+  deltas.push(extractor.flush());
+  return { deltas, output: deltas.join('') };
+}
+
+describe('extractJson', () => {
+  it('should return plain JSON unchanged', () => {
+    expect(extractJson('{"a":1}')).toBe('{"a":1}');
+  });
+
+  it('should extract JSON from a markdown code block', () => {
+    expect(extractJson('Here:\n```json\n{"a":1}\n```')).toBe('{"a":1}');
+  });
+
+  it('should extract a JSON object surrounded by prose', () => {
+    expect(extractJson('Result: {"a":1} done')).toBe('{"a":1}');
+  });
+});
+
+describe('createJsonStreamExtractor', () => {
+  it('should forward JSON deltas as they arrive', () => {
+    const { deltas, output } = streamAll(['{"name":', '"Ada",', '"age":36}']);
+    expect(deltas.slice(0, 3)).toEqual(['{"name":', '"Ada",', '"age":36}']);
+    expect(output).toBe('{"name":"Ada","age":36}');
+  });
+
+  it('should skip leading prose and a code fence', () => {
+    const { deltas, output } = streamAll([
+      'Sure, here is the object:\n',
+      '```json\n{"items":',
+      '[1,2]}\n```\nLet me know!',
+    ]);
+    expect(deltas[0]).toBe('');
+    expect(deltas[1]).toBe('{"items":');
+    expect(output).toBe('{"items":[1,2]}');
+    expect(output).toBe(
+      extractJson('Sure, here is the object:\n```json\n{"items":[1,2]}\n```\nLet me know!')
+    );
+  });
+
+  it('should ignore braces inside strings', () => {
+    const { output } = streamAll(['{"text":"a } b \\" {"', ',"n":1}', ' trailing']);
+    expect(output).toBe('{"text":"a } b \\" {","n":1}');
+  });
+
+  it('should not treat bracketed prose as an array', () => {
+    const { deltas, output } = streamAll(['[Note] checking files\n', '{"ok":true}']);
+    expect(deltas[0]).toBe('');
+    expect(output).toBe('{"ok":true}');
+  });
+
+  it('should stream top-level arrays of objects', () => {
+    const { deltas, output } = streamAll(['[{"a":1},', '{"a":2}]']);
+    expect(deltas[0]).toBe('[{"a":1},');
+    expect(output).toBe('[{"a":1},{"a":2}]');
+  });
+
+  it('should fall back to the final extraction when JSON is inline with prose', () => {
+    const { deltas, output } = streamAll(['The answer is {"a":1}']);
+    expect(deltas[0]).toBe('');
+    expect(output).toBe('{"a":1}');
+  });
+
+  it('should report a JSON-looking line that is not the final payload', () => {
+    const extractor = createJsonStreamExtractor();
+    const output = [
+      extractor.push('Current config:\n{"debug":false}\n'),
+      extractor.push('Updated config:\n{"debug":true}'),
+      extractor.flush(),
+    ].join('');
+    expect(output).toBe('{"debug":false}');
+    expect(extractor.failed).toBe(true);
+  });
+
+  it('should not report a payload that matches the final extraction', () => {
+    const extractor = createJsonStreamExtractor();
+    extractor.push('Here:\n```json\n{"a":1}\n```');
+    extractor.flush();
+    expect(extractor.failed).toBe(false);
+  });
+
+  it('should look for a new payload after a reset', () => {
+    const extractor = createJsonStreamExtractor();
+    expect(extractor.push('Current config:\n{"a":1}\n')).toBe('{"a":1}');
+    extractor.reset();
+    const output = extractor.push('```json\n{"name":"x"}\n```') + extractor.flush();
+    expect(output).toBe('{"name":"x"}');
+    expect(extractor.failed).toBe(false);
+  });
+
+  it('should return nothing for empty input', () => {
+    expect(streamAll([]).output).toBe('');
+  });
+});
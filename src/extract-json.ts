@@ -61,3 +61,174 @@ export function extractJson(text: string): string {
   // If all else fails, return the original text
   return text;
 }
+
+/**
+ * Incremental JSON extractor for streamed text.
+ * Locates the start of the JSON payload and forwards it as it arrives,
+ * so partial objects can be parsed before the response completes.
+ */
+export interface JsonStreamExtractor {
+  /**
+   * Feeds the next chunk of streamed text.
+   *
+   * @param text - Newly received text
+   * @returns JSON text that can be forwarded now (may be empty)
+   */
+  push(text: string): string;
+
+  /**
+   * Completes extraction once the stream has ended.
+   * Reconciles the forwarded text with {@link extractJson} on the full text.
+   *
+   * @returns Remaining JSON text to forward (may be empty)
+   */
+  flush(): string;
+
+  /**
+   * Drops the payload located so far, for when it turned out not to be the answer.
+   * Only text pushed afterwards is searched for a new payload, while {@link flush}
+   * still extracts from the full text.
+   */
+  reset(): void;
+
+  /**
+   * Whether {@link flush} found no valid JSON in the full text, or found a different
+   * payload than the one already forwarded, such as a JSON-looking line Amp printed
+   * in an earlier turn.
+   */
+  readonly failed: boolean;
+}
+
+/**
+ * Creates an incremental JSON extractor.
+ *
+ * The payload is assumed to start at the first `{` (or array-opening `[`) found at
+ * the beginning of a line, which skips leading prose and markdown code fences.
+ * Forwarding stops once the top-level value is closed, so a closing fence or
+ * trailing prose is never emitted.
+ *
+ * @returns A JsonStreamExtractor instance
+ */
+export function createJsonStreamExtractor(): JsonStreamExtractor {
+  let buffer = '';
+  let emitted = '';
+  let scanPos = 0;
+  let start = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let complete = false;
+  let failed = false;
+
+  // Find the payload start, returning false when more text is needed to decide
+  const seekStart = (): boolean => {
+    while (scanPos < buffer.length) {
+      const lineEnd = buffer.indexOf('\n', scanPos);
+      let i = scanPos;
+      while (i < buffer.length && (buffer[i] === ' ' || buffer[i] === '\t')) i++;
+
+      if (i < buffer.length && buffer[i] === '{') {
+        start = i;
+        return true;
+      }
+      if (i < buffer.length && buffer[i] === '[') {
+        // Only treat `[` as JSON when followed by a value that commonly opens an array
+        let j = i + 1;
+        while (j < buffer.length && /\s/.test(buffer[j]!)) j++;
+        if (j === buffer.length) return false;
+        if ('{["]'.includes(buffer[j]!)) {
+          start = i;
+          return true;
+        }
+      }
+
+      if (lineEnd === -1) return false;
+      scanPos = lineEnd + 1;
+    }
+    return false;
+  };
+
+  // Advance the scanner from `scanPos`, returning the index after the last forwardable char
+  const scan = (): number => {
+    let i = scanPos;
+    for (; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          complete = true;
+          i++;
+          break;
+        }
+      }
+    }
+    scanPos = i;
+    return i;
+  };
+
+  return {
+    push(text: string): string {
+      if (!text || complete) {
+        buffer += text ?? '';
+        return '';
+      }
+      buffer += text;
+
+      if (start === -1) {
+        if (!seekStart()) return '';
+        scanPos = start;
+      }
+
+      const end = scan();
+      const delta = buffer.slice(start + emitted.length, end);
+      emitted += delta;
+      return delta;
+    },
+
+    flush(): string {
+      const extracted = extractJson(buffer);
+      if (!extracted) return '';
+
+      try {
+        JSON.parse(extracted);
+      } catch {
+        failed = true;
+      }
+
+      const candidate = extracted.trimStart();
+      if (!emitted) return candidate;
+      if (!failed && candidate.startsWith(emitted)) {
+        const rest = candidate.slice(emitted.length);
+        emitted += rest;
+        return rest;
+      }
+
+      // The streamed payload diverged from the final extraction; nothing more can be
+      // forwarded without corrupting what was already sent.
+      failed = true;
+      return '';
+    },
+
+    reset(): void {
+      emitted = '';
+      start = -1;
+      depth = 0;
+      inString = false;
+      escaped = false;
+      complete = false;
+      scanPos = buffer.length;
+    },
+
+    get failed(): boolean {
+      return failed;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { assertAmpHealthy, checkAmpHealth, createPreflight } from './health.js';
+import type { AmpHealthReport } from './health.js';
+import { isAmpError } from './errors.js';
+
+describe('health', () => {
+  let dir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'amp-health-'));
+    delete process.env.AMP_API_KEY;
+    process.env.XDG_DATA_HOME = join(dir, 'data');
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('checkAmpHealth', () => {
+    it('should report the CLI package it resolves', async () => {
+      const report = await checkAmpHealth();
+
+      expect(typeof report.cli.found).toBe('boolean');
+      if (report.cli.found) {
+        expect(report.cli.path).toBeTruthy();
+      } else {
+        expect(report.problems).toContain(report.cli.error);
+      }
+    });
+
+    it('should take credentials from AMP_API_KEY', async () => {
+      process.env.AMP_API_KEY = 'sgamp_test';
+      expect((await checkAmpHealth()).credentials.source).toBe('env');
+    });
+
+    it('should take credentials from settings.env', async () => {
+      const report = await checkAmpHealth({ env: { AMP_API_KEY: 'sgamp_test' } });
+      expect(report.credentials.source).toBe('env');
+    });
+
+    it('should fall back to the amp login secrets file', async () => {
+      mkdirSync(join(dir, 'data', 'amp'), { recursive: true });
+      writeFileSync(join(dir, 'data', 'amp', 'secrets.json'), '{}');
+
+      const report = await checkAmpHealth();
+
+      expect(report.credentials).toEqual({
+        source: 'secrets-file',
+        secretsFile: join(dir, 'data', 'amp', 'secrets.json'),
+      });
+    });
+
+    it('should report missing credentials', async () => {
+      const report = await checkAmpHealth();
+
+      expect(report.ok).toBe(false);
+      expect(report.credentials.source).toBe('none');
+      expect(report.problems.some((problem) => problem.includes('No Amp credentials'))).toBe(true);
+    });
+
+    it('should check the configured paths', async () => {
+      process.env.AMP_API_KEY = 'sgamp_test';
+
+      const report = await checkAmpHealth({
+        cwd: dir,
+        toolbox: join(dir, 'missing-toolbox'),
+        logFile: join(dir, 'logs', 'amp.log'),
+      });
+
+      expect(report.paths).toEqual({
+        cwd: { path: dir, exists: true },
+        toolbox: { path: join(dir, 'missing-toolbox'), exists: false },
+        logFile: { path: join(dir, 'logs', 'amp.log'), exists: false },
+      });
+      expect(report.problems).toEqual(
+        expect.arrayContaining([
+          `toolbox directory does not exist: ${join(dir, 'missing-toolbox')}`,
+          `logFile directory does not exist: ${join(dir, 'logs')}`,
+        ])
+      );
+    });
+  });
+
+  describe('assertAmpHealthy', () => {
+    const healthy: AmpHealthReport = {
+      ok: true,
+      cli: { found: true, path: '/bin/amp', version: '1.0.0' },
+      credentials: { source: 'env', secretsFile: '/secrets.json' },
+      paths: {},
+      problems: [],
+    };
+
+    it('should pass a healthy report', () => {
+      expect(() => assertAmpHealthy(healthy)).not.toThrow();
+    });
+
+    it('should map failures to typed errors', () => {
+      const noCli = { ...healthy, ok: false, cli: { found: false, error: 'missing' } };
+      const noCredentials = {
+        ...healthy,
+        ok: false,
+        credentials: { source: 'none' as const, secretsFile: '/secrets.json' },
+      };
+      const badPath = { ...healthy, ok: false, problems: ['cwd directory does not exist: /x'] };
+
+      expect(() => assertAmpHealthy(noCli)).toThrow(
+        expect.objectContaining({ kind: 'cli-not-found' })
+      );
+      expect(() => assertAmpHealthy(noCredentials)).toThrow(
+        expect.objectContaining({ kind: 'authentication' })
+      );
+      expect(() => assertAmpHealthy(badPath)).toThrow('cwd directory does not exist: /x');
+    });
+  });
+
+  describe('createPreflight', () => {
+    it('should share one check per configuration and reject with a typed error', async () => {
+      const preflight = createPreflight();
+      const settings = { cwd: join(dir, 'missing') };
+
+      const first = preflight(settings);
+      expect(preflight({ ...settings })).toBe(first);
+
+      const error = await first.catch((e: unknown) => e);
+      expect(isAmpError(error)).toBe(true);
+
+      // Failed checks are not cached, so a fixed configuration is checked again
+      expect(preflight(settings)).not.toBe(first);
+      await preflight(settings).catch(() => {});
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { readFile, stat } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import {
+  AmpCliNotFoundError,
+  AmpExecutionError,
+  createAuthenticationError,
+} from './errors.js';
+import type { AmpSettings } from './types.js';
+
+/**
+ * Whether the Amp CLI that the SDK spawns can be located.
+ */
+export interface AmpCliStatus {
+  /**
+   * true if the CLI package and its binary were found
+   */
+  found: boolean;
+
+  /**
+   * Path of the CLI binary
+   */
+  path?: string;
+
+  /**
+   * Version of the installed `@sourcegraph/amp` package
+   */
+  version?: string;
+
+  /**
+   * Why the CLI could not be located
+   */
+  error?: string;
+}
+
+/**
+ * Where Amp will take its credentials from.
+ * - `env`: the `AMP_API_KEY` environment variable (process or `settings.env`)
+ * - `secrets-file`: the file written by `amp login`
+ * - `none`: no credentials were found
+ */
+export type AmpCredentialSource = 'env' | 'secrets-file' | 'none';
+
+/**
+ * Credential lookup result.
+ */
+export interface AmpCredentialsStatus {
+  source: AmpCredentialSource;
+
+  /**
+   * Location checked for `amp login` credentials
+   */
+  secretsFile: string;
+}
+
+/**
+ * Existence check for a configured path.
+ * For `logFile`, which Amp creates on demand, its directory is checked.
+ */
+export interface AmpPathStatus {
+  path: string;
+  exists: boolean;
+}
+
+/**
+ * Result of {@link checkAmpHealth}.
+ */
+export interface AmpHealthReport {
+  /**
+   * true if no problems were found
+   */
+  ok: boolean;
+
+  cli: AmpCliStatus;
+
+  credentials: AmpCredentialsStatus;
+
+  /**
+   * Status of the configured paths; only set for paths present in the settings
+   */
+  paths: {
+    cwd?: AmpPathStatus;
+    toolbox?: AmpPathStatus;
+    logFile?: AmpPathStatus;
+  };
+
+  /**
+   * Human-readable descriptions of everything that failed
+   */
+  problems: string[];
+}
+
+/**
+ * Location of the credentials stored by `amp login`.
+ */
+function getSecretsFilePath(): string {
+  const dataHome = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+  return join(dataHome, 'amp', 'secrets.json');
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Locates the Amp CLI the same way the SDK does: through the `bin` entry of
+ * the `@sourcegraph/amp` package.
+ */
+async function checkCli(): Promise<AmpCliStatus> {
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = createRequire(import.meta.url).resolve('@sourcegraph/amp/package.json');
+  } catch {
+    return {
+      found: false,
+      error: 'Could not find the @sourcegraph/amp package. Make sure it is installed.',
+    };
+  }
+
+  const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf8')) as {
+    version?: string;
+    bin?: string | Record<string, string>;
+  };
+  const bin = typeof packageJson.bin === 'string' ? packageJson.bin : packageJson.bin?.amp;
+  if (!bin) {
+    return {
+      found: false,
+      version: packageJson.version,
+      error: 'The @sourcegraph/amp package has no bin entry for the Amp CLI',
+    };
+  }
+
+  const binPath = join(dirname(packageJsonPath), bin);
+  if (!(await isFile(binPath))) {
+    return {
+      found: false,
+      path: binPath,
+      version: packageJson.version,
+      error: `The Amp CLI binary does not exist at ${binPath}`,
+    };
+  }
+
+  return { found: true, path: binPath, version: packageJson.version };
+}
+
+async function checkCredentials(settings: AmpSettings): Promise<AmpCredentialsStatus> {
+  const secretsFile = getSecretsFilePath();
+  if (settings.env?.AMP_API_KEY || process.env.AMP_API_KEY) {
+    return { source: 'env', secretsFile };
+  }
+  if (await isFile(secretsFile)) {
+    return { source: 'secrets-file', secretsFile };
+  }
+  return { source: 'none', secretsFile };
+}
+
+/**
+ * Checks that Amp can run with the given settings, without calling the model.
+ * Reports whether the Amp CLI resolves and its version, where credentials come
+ * from, and whether the configured `cwd`, `toolbox` and `logFile` paths exist.
+ *
+ * @param settings - Settings whose paths and environment should be checked
+ * @returns The health report; `ok` is false if anything failed
+ *
+ * @example
+ * ```typescript
+ * const report = await checkAmpHealth({ cwd: '/path/to/project' });
+ * if (!report.ok) {
+ *   console.error(report.problems.join('\n'));
+ * }
+ * ```
+ */
+export async function checkAmpHealth(settings: AmpSettings = {}): Promise<AmpHealthReport> {
+  const problems: string[] = [];
+
+  const cli = await checkCli();
+  if (!cli.found) {
+    problems.push(cli.error!);
+  }
+
+  const credentials = await checkCredentials(settings);
+  if (credentials.source === 'none') {
+    problems.push(
+      `No Amp credentials found: AMP_API_KEY is not set and ${credentials.secretsFile} does not exist`
+    );
+  }
+
+  const paths: AmpHealthReport['paths'] = {};
+  if (settings.cwd !== undefined) {
+    const path = resolve(settings.cwd);
+    paths.cwd = { path, exists: await isDirectory(path) };
+    if (!paths.cwd.exists) problems.push(`cwd directory does not exist: ${path}`);
+  }
+  if (settings.toolbox !== undefined) {
+    const path = resolve(settings.toolbox);
+    paths.toolbox = { path, exists: await isDirectory(path) };
+    if (!paths.toolbox.exists) problems.push(`toolbox directory does not exist: ${path}`);
+  }
+  if (settings.logFile !== undefined) {
+    const path = resolve(settings.logFile);
+    paths.logFile = { path, exists: await isDirectory(dirname(path)) };
+    if (!paths.logFile.exists) problems.push(`logFile directory does not exist: ${dirname(path)}`);
+  }
+
+  return { ok: problems.length === 0, cli, credentials, paths, problems };
+}
+
+/**
+ * Converts a failed health report into the matching typed error.
+ *
+ * @param report - Result of {@link checkAmpHealth}
+ * @throws AmpCliNotFoundError, AmpAuthenticationError or AmpExecutionError
+ */
+export function assertAmpHealthy(report: AmpHealthReport): void {
+  if (report.ok) return;
+
+  if (!report.cli.found) {
+    throw new AmpCliNotFoundError({ message: `Amp CLI not found: ${report.cli.error}` });
+  }
+  if (report.credentials.source === 'none') {
+    throw createAuthenticationError('No Amp credentials found.');
+  }
+  throw new AmpExecutionError({
+    message: `Amp preflight check failed: ${report.problems.join('; ')}`,
+  });
+}
+
+/**
+ * Creates the preflight runner shared by the models of one provider.
+ * Each distinct combination of checked settings is verified once; a failed
+ * check is forgotten so it runs again after the problem is fixed.
+ *
+ * @returns A function that resolves once the settings passed the health check
+ */
+export function createPreflight(): (settings: AmpSettings) => Promise<void> {
+  const checks = new Map<string, Promise<void>>();
+
+  return (settings) => {
+    const key = JSON.stringify([
+      settings.cwd,
+      settings.toolbox,
+      settings.logFile,
+      Boolean(settings.env?.AMP_API_KEY),
+    ]);
+    let check = checks.get(key);
+    if (!check) {
+      check = checkAmpHealth(settings).then(assertAmpHealthy);
+      check.catch(() => checks.delete(key));
+      checks.set(key, check);
+    }
+    return check;
+  };
+}
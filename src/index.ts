@@ -34,12 +34,82 @@ export type { AmpModelId, AmpLanguageModelOptions } from './amp-language-model.j
  * Settings for configuring Amp behavior.
  * Includes options for customizing the SDK execution, permissions, and tool usage.
  */
-export type { AmpSettings, Logger, MCPServer, Permission } from './types.js';
+export type {
+  AmpSettings,
+  AmpRetrySettings,
+  AmpCostRates,
+  Logger,
+  MCPServer,
+  Permission,
+} from './types.js';
+
+/**
+ * Attempt records reported under `attempts` in provider metadata when `retry` is set.
+ */
+export type { AmpRetryAttempt } from './retry.js';
+
+/**
+ * Per-turn usage reported under `turnUsage` in provider metadata.
+ */
+export type { AmpTurnUsage } from './usage.js';
+
+/**
+ * Session stores that map conversation keys to Amp thread IDs for `sessionKey`.
+ */
+export { createMemorySessionStore, createFileSessionStore } from './session-store.js';
+export type { AmpSessionStore } from './session-store.js';
+
+/**
+ * Transcripts written to `transcriptDir`, read back for audits or to rebuild a conversation.
+ * @see {@link loadTranscript} to load a transcript as AI SDK messages
+ */
+export { readTranscript, loadTranscript } from './transcript.js';
+export type { AmpTranscriptRecord } from './transcript.js';
+
+/**
+ * Preflight health check for the Amp CLI, credentials and configured paths.
+ * @see {@link checkAmpHealth} to run the check without calling the model
+ */
+export { checkAmpHealth } from './health.js';
+export type {
+  AmpHealthReport,
+  AmpCliStatus,
+  AmpCredentialSource,
+  AmpCredentialsStatus,
+  AmpPathStatus,
+} from './health.js';
+
+/**
+ * Secret redaction applied to logs, warnings and errors.
+ * Exposed for masking provider output in your own logs.
+ */
+export { createRedactor, REDACTED } from './redaction.js';
+export type { Redactor } from './redaction.js';
+
+/**
+ * Typed errors raised by the Amp provider.
+ * All of them extend `APICallError` and carry structured metadata.
+ *
+ * @see {@link isAmpError} to narrow an unknown error to one of these classes
+ */
+export {
+  AmpError,
+  AmpAuthenticationError,
+  AmpMaxTurnsError,
+  AmpExecutionError,
+  AmpCliNotFoundError,
+  AmpPermissionDeniedError,
+  AmpAbortedError,
+  AmpTimeoutError,
+  AmpBudgetExceededError,
+  AmpThreadBusyError,
+} from './errors.js';
 
 /**
  * Error handling utilities for Amp.
  * These functions help create and identify specific error types.
  *
+ * @see {@link isAmpError} to check for Amp errors, optionally of a given kind
  * @see {@link isAuthenticationError} to check for authentication failures
  * @see {@link isTimeoutError} to check for timeout errors
  * @see {@link getErrorMetadata} to extract error metadata
@@ -48,6 +118,7 @@ export type { AmpSettings, Logger, MCPServer, Permission } from './types.js';
  * @see {@link createTimeoutError} to create timeout errors
  */
 export {
+  isAmpError,
   isAuthenticationError,
   isTimeoutError,
   getErrorMetadata,
@@ -61,4 +132,9 @@ export {
  * Metadata associated with Amp errors.
  * Contains additional context about SDK execution failures.
  */
-export type { AmpErrorMetadata } from './errors.js';
+export type {
+  AmpErrorMetadata,
+  AmpErrorKind,
+  AmpErrorOptions,
+  AmpErrorByKind,
+} from './errors.js';
@@ -1,3 +1,4 @@
+import { noRedaction, type Redactor } from './redaction.js';
 import type { Logger } from './types.js';
 
 /**
@@ -60,3 +61,22 @@ export function createVerboseLogger(baseLogger: Logger, verbose: boolean): Logge
     error: baseLogger.error,
   };
 }
+
+/**
+ * Wraps a logger so every message passes through the redactor first.
+ *
+ * @param logger - The underlying logger
+ * @param redact - Redactor to apply
+ * @returns A Logger instance
+ */
+export function createRedactingLogger(logger: Logger, redact: Redactor): Logger {
+  if (redact === noRedaction) {
+    return logger;
+  }
+  return {
+    debug: (message) => logger.debug(redact(message)),
+    info: (message) => logger.info(redact(message)),
+    warn: (message) => logger.warn(redact(message)),
+    error: (message) => logger.error(redact(message)),
+  };
+}
@@ -0,0 +1,127 @@
+import { inspect } from 'node:util';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AmpExecutionError, getErrorMetadata, toAmpError } from './errors.js';
+import { createRedactingLogger } from './logger.js';
+import { REDACTED, collectSecrets, createRedactor, noRedaction, redactStrings } from './redaction.js';
+
+describe('redaction', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('collectSecrets', () => {
+    it('should collect env, MCP env and AMP_API_KEY values, longest first', () => {
+      vi.stubEnv('AMP_API_KEY', 'sgamp_process_key');
+
+      const secrets = collectSecrets({
+        env: { GITHUB_TOKEN: 'ghp_abcdef', NODE_ENV: 'test', UNSET: undefined },
+        mcpConfig: {
+          db: { command: 'db-mcp', env: { DB_PASSWORD: 'hunter2hunter2' } },
+        },
+      });
+
+      expect(secrets).toEqual(['sgamp_process_key', 'hunter2hunter2', 'ghp_abcdef']);
+    });
+  });
+
+  describe('createRedactor', () => {
+    it('should return noRedaction when there is nothing to mask', () => {
+      vi.stubEnv('AMP_API_KEY', '');
+      expect(createRedactor({})).toBe(noRedaction);
+    });
+
+    it('should mask secrets and user patterns', () => {
+      vi.stubEnv('AMP_API_KEY', '');
+      const redact = createRedactor({
+        env: { TOKEN: 'secret-value' },
+        redact: ['internal.example.com', /tok_\w+/],
+      });
+
+      expect(redact('a secret-value b tok_123 c internal.example.com tok_456')).toBe(
+        `a ${REDACTED} b ${REDACTED} c ${REDACTED} ${REDACTED}`
+      );
+    });
+
+    it('should treat string patterns literally', () => {
+      vi.stubEnv('AMP_API_KEY', '');
+      const redact = createRedactor({ redact: ['a.c'] });
+
+      expect(redact('abc a.c')).toBe(`abc ${REDACTED}`);
+    });
+  });
+
+  describe('redactStrings', () => {
+    it('should redact string properties only', () => {
+      const redact = (text: string) => text.replace('key', REDACTED);
+
+      expect(redactStrings({ prompt: 'my key', numTurns: 2 }, redact)).toEqual({
+        prompt: `my ${REDACTED}`,
+        numTurns: 2,
+      });
+    });
+  });
+
+  describe('errors', () => {
+    const redact = (text: string) => text.replaceAll('s3cr3t', REDACTED);
+
+    it('should mask the message and metadata of Amp errors', () => {
+      const error = new AmpExecutionError({
+        message: 'failed with s3cr3t',
+        metadata: { prompt: 'use s3cr3t', numTurns: 1 },
+        redact,
+      });
+
+      expect(error.message).toBe(`failed with ${REDACTED}`);
+      expect(getErrorMetadata(error)).toEqual({ prompt: `use ${REDACTED}`, numTurns: 1 });
+      expect(error.requestBodyValues).toEqual(getErrorMetadata(error));
+    });
+
+    it('should mask converted SDK errors but classify them on the raw message', () => {
+      const error = toAmpError(
+        new Error('Amp CLI process exited with code 1: invalid token s3cr3t'),
+        {},
+        redact
+      );
+
+      expect(error.message).not.toContain('s3cr3t');
+      expect(getErrorMetadata(error)).toMatchObject({
+        exitCode: 1,
+        originalError: `Amp CLI process exited with code 1: invalid token ${REDACTED}`,
+        stderrTail: `invalid token ${REDACTED}`,
+      });
+    });
+
+    it('should mask the cause printed by util.inspect', () => {
+      const redact = createRedactor({ env: { GITHUB_TOKEN: 'ghp_supersecret' } });
+      const sdkError = Object.assign(
+        new Error('Amp CLI process exited with code 1: auth with ghp_supersecret failed'),
+        { code: 'E_AMP' }
+      );
+
+      const error = toAmpError(sdkError, {}, redact);
+      const cause = error.cause as Error & { code?: string };
+
+      expect(inspect(error)).not.toContain('ghp_supersecret');
+      expect(cause).not.toBe(sdkError);
+      expect(cause.message).toBe(`Amp CLI process exited with code 1: auth with ${REDACTED} failed`);
+      expect(cause).toMatchObject({ name: 'Error', code: 'E_AMP' });
+      expect(toAmpError(sdkError).cause).toBe(sdkError);
+    });
+  });
+
+  describe('createRedactingLogger', () => {
+    it('should redact every log level', () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const redacting = createRedactingLogger(logger, (text) => text.replace('pw', REDACTED));
+
+      redacting.debug('pw');
+      redacting.info('pw');
+      redacting.warn('pw');
+      redacting.error('pw');
+
+      for (const log of Object.values(logger)) {
+        expect(log).toHaveBeenCalledWith(REDACTED);
+      }
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import type { AmpSettings } from './types.js';
+
+/**
+ * Replaces secrets in a piece of text.
+ */
+export type Redactor = (text: string) => string;
+
+/**
+ * Replacement for every redacted value.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Values shorter than this are not treated as secrets; masking them
+ * (e.g. `NODE_ENV=test`) would mangle unrelated text.
+ */
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Passes text through unchanged.
+ */
+export const noRedaction: Redactor = (text) => text;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Collects the secret values known from the settings: everything in `env`,
+ * the `env` of each MCP server, and `AMP_API_KEY` from the process environment.
+ *
+ * @param settings - Settings to collect secrets from
+ * @returns Distinct secret values, longest first
+ */
+export function collectSecrets(settings: AmpSettings): string[] {
+  const values = [
+    ...Object.values(settings.env ?? {}),
+    ...Object.values(settings.mcpConfig ?? {}).flatMap((server) => Object.values(server.env ?? {})),
+    process.env.AMP_API_KEY,
+  ];
+  const secrets = new Set(
+    values.filter(
+      (value): value is string => typeof value === 'string' && value.length >= MIN_SECRET_LENGTH
+    )
+  );
+  // Longest first, so a secret that contains another is masked as a whole
+  return [...secrets].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Creates the redactor for the given settings. It masks the values returned by
+ * {@link collectSecrets} and every match of `settings.redact`.
+ *
+ * @param settings - Settings to collect secrets and patterns from
+ * @returns A function that replaces secrets with {@link REDACTED}
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactor({ env: { GITHUB_TOKEN: 'ghp_abc123' } });
+ * redact('token ghp_abc123'); // 'token [REDACTED]'
+ * ```
+ */
+export function createRedactor(settings: AmpSettings): Redactor {
+  const patterns: RegExp[] = [];
+
+  const secrets = collectSecrets(settings);
+  if (secrets.length > 0) {
+    patterns.push(new RegExp(secrets.map(escapeRegExp).join('|'), 'g'));
+  }
+  for (const pattern of settings.redact ?? []) {
+    if (typeof pattern === 'string') {
+      if (pattern) patterns.push(new RegExp(escapeRegExp(pattern), 'g'));
+    } else {
+      const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+      patterns.push(new RegExp(pattern.source, flags));
+    }
+  }
+
+  if (patterns.length === 0) {
+    return noRedaction;
+  }
+  return (text) => patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+/**
+ * Applies a redactor to every string property of an object.
+ *
+ * @param value - Object to redact, such as error metadata
+ * @param redact - Redactor to apply
+ * @returns A copy with redacted strings
+ */
+export function redactStrings<T extends object>(value: T, redact: Redactor): T {
+  if (redact === noRedaction) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      typeof item === 'string' ? redact(item) : item,
+    ])
+  ) as T;
+}
+
+/**
+ * Applies a redactor to an error kept as a `cause`. Error messages are redacted,
+ * but `util.inspect` and `console.error` also print the cause, so it gets masked too.
+ *
+ * @param error - The original error
+ * @param redact - Redactor to apply
+ * @returns The error itself without redaction, otherwise a copy with the same name,
+ * code and stack whose message and stack are redacted
+ */
+export function redactError(error: unknown, redact: Redactor): unknown {
+  if (redact === noRedaction) {
+    return error;
+  }
+  if (typeof error === 'string') {
+    return redact(error);
+  }
+  if (!(error instanceof Error)) {
+    return error;
+  }
+
+  const copy = new Error(redact(error.message));
+  copy.name = error.name;
+  copy.stack = error.stack === undefined ? undefined : redact(error.stack);
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (code !== undefined) {
+    Object.assign(copy, { code });
+  }
+  if (cause !== undefined) {
+    Object.assign(copy, { cause: redactError(cause, redact) });
+  }
+  return copy;
+}
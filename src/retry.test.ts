@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AmpAbortedError,
+  AmpBudgetExceededError,
+  AmpExecutionError,
+  AmpTimeoutError,
+} from './errors.js';
+import {
+  DEFAULT_CONTINUE_PROMPT,
+  getRetryDelay,
+  planRetry,
+  resolveRetryPolicy,
+  waitForRetry,
+} from './retry.js';
+import type { AmpRetryAttempt } from './retry.js';
+
+describe('retry', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should run once without retry settings', () => {
+      expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    });
+
+    it('should apply defaults to partial settings', () => {
+      const policy = resolveRetryPolicy({ initialDelayMs: 10 });
+
+      expect(policy).toMatchObject({
+        maxAttempts: 3,
+        initialDelayMs: 10,
+        backoffFactor: 2,
+        maxDelayMs: 30_000,
+        continuePrompt: DEFAULT_CONTINUE_PROMPT,
+      });
+      expect(policy.shouldRetry(new AmpTimeoutError({ message: 'slow' }))).toBe(true);
+      expect(policy.shouldRetry(new AmpExecutionError({ message: 'bad' }))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to the maximum', () => {
+      const policy = resolveRetryPolicy({ initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 500 });
+
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(300);
+      expect(getRetryDelay(policy, 3)).toBe(500);
+    });
+  });
+
+  describe('planRetry', () => {
+    it('should record the failure and the delay before the next attempt', () => {
+      const policy = resolveRetryPolicy({ initialDelayMs: 50 });
+      const attempts: AmpRetryAttempt[] = [{ attempt: 1 }];
+
+      const delay = planRetry(policy, attempts, new AmpTimeoutError({ message: 'slow' }));
+
+      expect(delay).toBe(50);
+      expect(attempts).toEqual([
+        { attempt: 1, error: 'slow', errorKind: 'timeout', delayMs: 50 },
+      ]);
+    });
+
+    it('should give up after maxAttempts', () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 2 });
+      const attempts: AmpRetryAttempt[] = [{ attempt: 1 }, { attempt: 2 }];
+
+      expect(planRetry(policy, attempts, new AmpTimeoutError({ message: 'slow' }))).toBeUndefined();
+      expect(attempts[1]).toEqual({ attempt: 2, error: 'slow', errorKind: 'timeout' });
+    });
+
+    it('should never retry aborts or exhausted budgets', () => {
+      const policy = resolveRetryPolicy({ isRetryable: () => true });
+
+      expect(
+        planRetry(policy, [{ attempt: 1 }], new AmpAbortedError({ message: 'stop' }))
+      ).toBeUndefined();
+      expect(
+        planRetry(policy, [{ attempt: 1 }], new AmpBudgetExceededError({ message: 'spent' }))
+      ).toBeUndefined();
+    });
+
+    it('should use a custom retryable predicate', () => {
+      const policy = resolveRetryPolicy({ isRetryable: (error) => error.kind === 'execution' });
+
+      expect(planRetry(policy, [{ attempt: 1 }], new AmpExecutionError({ message: 'x' }))).toBe(
+        1000
+      );
+      expect(
+        planRetry(policy, [{ attempt: 1 }], new AmpTimeoutError({ message: 'x' }))
+      ).toBeUndefined();
+    });
+  });
+
+  describe('waitForRetry', () => {
+    it('should reject when the signal aborts', async () => {
+      const controller = new AbortController();
+      const wait = waitForRetry(10_000, controller.signal);
+      controller.abort(new Error('stop'));
+
+      await expect(wait).rejects.toThrow('stop');
+    });
+
+    it('should resolve after the delay', async () => {
+      await expect(waitForRetry(1)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { AmpError, AmpErrorKind } from './errors.js';
+import type { AmpRetrySettings } from './types.js';
+
+/**
+ * Instruction sent when a retry resumes a thread that already has a session ID.
+ */
+export const DEFAULT_CONTINUE_PROMPT =
+  'Your previous run was interrupted. Continue where you left off without repeating work that is already done.';
+
+/**
+ * Retry settings with defaults applied.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  backoffFactor: number;
+  maxDelayMs: number;
+  continuePrompt: string;
+  shouldRetry: (error: AmpError) => boolean;
+}
+
+/**
+ * One Amp execution made for a call, as recorded in provider metadata.
+ */
+export interface AmpRetryAttempt {
+  /**
+   * 1-based attempt number
+   */
+  attempt: number;
+
+  /**
+   * Session the attempt continued, when it resumed an interrupted thread
+   */
+  resumedSessionId?: string;
+
+  /**
+   * Message of the error that ended the attempt
+   */
+  error?: string;
+
+  /**
+   * Kind of the error that ended the attempt
+   */
+  errorKind?: AmpErrorKind;
+
+  /**
+   * Backoff before the next attempt (ms)
+   */
+  delayMs?: number;
+}
+
+/**
+ * Applies defaults to the retry settings. Without settings, calls run once.
+ *
+ * @param settings - Retry settings from AmpSettings
+ * @returns The resolved retry policy
+ */
+export function resolveRetryPolicy(settings?: AmpRetrySettings): RetryPolicy {
+  return {
+    maxAttempts: settings?.maxAttempts ?? (settings ? 3 : 1),
+    initialDelayMs: settings?.initialDelayMs ?? 1000,
+    backoffFactor: settings?.backoffFactor ?? 2,
+    maxDelayMs: settings?.maxDelayMs ?? 30_000,
+    continuePrompt: settings?.continuePrompt ?? DEFAULT_CONTINUE_PROMPT,
+    shouldRetry: settings?.isRetryable ?? ((error) => error.isRetryable),
+  };
+}
+
+/**
+ * Computes the exponential backoff before the next attempt.
+ *
+ * @param policy - Resolved retry policy
+ * @param failedAttempts - Number of attempts that have failed so far
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, failedAttempts: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffFactor, failedAttempts - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Decides whether a failed attempt should be retried and records it.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempts - Attempts made so far; the failed attempt is updated in place
+ * @param error - Error that ended the latest attempt
+ * @returns The backoff before the next attempt, or undefined to give up
+ */
+export function planRetry(
+  policy: RetryPolicy,
+  attempts: AmpRetryAttempt[],
+  error: AmpError
+): number | undefined {
+  const failed = attempts[attempts.length - 1];
+  if (failed) {
+    failed.error = error.message;
+    failed.errorKind = error.kind;
+  }
+  if (
+    error.kind === 'aborted' ||
+    error.kind === 'budget-exceeded' ||
+    attempts.length >= policy.maxAttempts
+  ) {
+    return undefined;
+  }
+  if (!policy.shouldRetry(error)) {
+    return undefined;
+  }
+
+  const delayMs = getRetryDelay(policy, attempts.length);
+  if (failed) {
+    failed.delayMs = delayMs;
+  }
+  return delayMs;
+}
+
+/**
+ * Waits for the retry backoff, rejecting early if the signal aborts.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Caller's abort signal
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileSessionStore, createMemorySessionStore } from './session-store.js';
+
+describe('session-store', () => {
+  describe('createMemorySessionStore', () => {
+    it('should get, set and delete thread IDs', async () => {
+      const store = createMemorySessionStore();
+
+      expect(await store.get('chat-1')).toBeUndefined();
+      await store.set('chat-1', 'T-1');
+      expect(await store.get('chat-1')).toBe('T-1');
+      await store.delete('chat-1');
+      expect(await store.get('chat-1')).toBeUndefined();
+    });
+  });
+
+  describe('createFileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'amp-sessions-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should create the file and its directory on first write', async () => {
+      const path = join(dir, 'nested', 'sessions.json');
+      const store = createFileSessionStore(path);
+
+      expect(await store.get('chat-1')).toBeUndefined();
+      await store.set('chat-1', 'T-1');
+
+      expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ 'chat-1': 'T-1' });
+    });
+
+    it('should share entries with other stores on the same file', async () => {
+      const path = join(dir, 'sessions.json');
+      await createFileSessionStore(path).set('chat-1', 'T-1');
+      const store = createFileSessionStore(path);
+
+      expect(await store.get('chat-1')).toBe('T-1');
+      await store.delete('chat-1');
+      expect(await createFileSessionStore(path).get('chat-1')).toBeUndefined();
+    });
+
+    it('should keep every entry when writes overlap', async () => {
+      const path = join(dir, 'sessions.json');
+      const store = createFileSessionStore(path);
+
+      await Promise.all([store.set('a', 'T-a'), store.set('b', 'T-b'), store.set('c', 'T-c')]);
+
+      expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ a: 'T-a', b: 'T-b', c: 'T-c' });
+    });
+
+    it('should reject a file that does not hold a JSON object', async () => {
+      const path = join(dir, 'sessions.json');
+      await writeFile(path, '[]', 'utf8');
+
+      await expect(createFileSessionStore(path).get('chat-1')).rejects.toThrow(
+        'does not contain a JSON object'
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Maps conversation keys (a user, chat or ticket ID) to Amp thread IDs.
+ * With `sessionStore` and `sessionKey` set, a call continues the thread stored
+ * under its key and stores the thread it ran on when it finishes.
+ *
+ * @example
+ * ```typescript
+ * const amp = createAmp({
+ *   defaultSettings: { sessionStore: createFileSessionStore('./.amp/sessions.json') },
+ * });
+ *
+ * await generateText({
+ *   model: amp('default'),
+ *   prompt,
+ *   providerOptions: { 'amp-sdk': { sessionKey: chatId } },
+ * });
+ * ```
+ */
+export interface AmpSessionStore {
+  /**
+   * Returns the thread ID stored for a key, or undefined if there is none.
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Stores the thread ID for a key, replacing any previous one.
+   */
+  set(key: string, sessionId: string): Promise<void>;
+
+  /**
+   * Removes the thread ID for a key, so the next call starts a new thread.
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Creates a session store that keeps thread IDs in memory.
+ * Entries live as long as the store, so share one instance between models.
+ *
+ * @returns An in-memory session store
+ */
+export function createMemorySessionStore(): AmpSessionStore {
+  const sessions = new Map<string, string>();
+  return {
+    async get(key) {
+      return sessions.get(key);
+    },
+    async set(key, sessionId) {
+      sessions.set(key, sessionId);
+    },
+    async delete(key) {
+      sessions.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a session store that keeps thread IDs in a JSON file of
+ * `{ "<key>": "<thread ID>" }`. The file is read on every lookup and replaced
+ * atomically on every change, and is created with its directory on first write.
+ * Changes made through one store are applied one at a time.
+ *
+ * @param path - Path of the JSON file
+ * @returns A file-backed session store
+ */
+export function createFileSessionStore(path: string): AmpSessionStore {
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<Record<string, string>> => {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const sessions: unknown = JSON.parse(content);
+    if (typeof sessions !== 'object' || sessions === null || Array.isArray(sessions)) {
+      throw new Error(`Session store ${path} does not contain a JSON object`);
+    }
+    return sessions as Record<string, string>;
+  };
+
+  const update = (change: (sessions: Record<string, string>) => void): Promise<void> => {
+    const next = writes.then(async () => {
+      const sessions = await load();
+      change(sessions);
+      await mkdir(dirname(path), { recursive: true });
+      const temporaryPath = `${path}.${process.pid}.tmp`;
+      await writeFile(temporaryPath, `${JSON.stringify(sessions, null, 2)}\n`, 'utf8');
+      await rename(temporaryPath, path);
+    });
+    // A failed write must not block later ones
+    writes = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    async get(key) {
+      await writes;
+      const sessionId = (await load())[key];
+      return typeof sessionId === 'string' ? sessionId : undefined;
+    },
+    set(key, sessionId) {
+      return update((sessions) => {
+        sessions[key] = sessionId;
+      });
+    },
+    delete(key) {
+      return update((sessions) => {
+        delete sessions[key];
+      });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { LanguageModelV2Prompt } from '@ai-sdk/provider';
+import { createThreadHistory } from './thread-history.js';
+
+const user = (text: string) => ({
+  role: 'user' as const,
+  content: [{ type: 'text' as const, text }],
+});
+const assistant = (text: string) => ({
+  role: 'assistant' as const,
+  content: [{ type: 'text' as const, text }],
+});
+
+describe('thread-history', () => {
+  const first: LanguageModelV2Prompt = [{ role: 'system', content: 'Be brief' }, user('Hi')];
+
+  it('should return only the new user messages of a known thread', () => {
+    const history = createThreadHistory();
+    history.record('T-1', first);
+
+    expect(history.unsent('T-1', [...first, assistant('Hello'), user('Bye')])).toEqual([
+      user('Bye'),
+    ]);
+  });
+
+  it('should ignore provider options on seen messages', () => {
+    const history = createThreadHistory();
+    history.record('T-1', first);
+
+    const prompt: LanguageModelV2Prompt = [
+      first[0],
+      { ...user('Hi'), providerOptions: { other: { cache: true } } },
+      user('Bye'),
+    ];
+    expect(history.unsent('T-1', prompt)).toEqual([user('Bye')]);
+  });
+
+  it('should require the whole prompt for unknown threads and edited history', () => {
+    const history = createThreadHistory();
+    history.record('T-1', first);
+
+    expect(history.unsent('T-2', [...first, user('Bye')])).toBeUndefined();
+    expect(
+      history.unsent('T-1', [{ role: 'system', content: 'Be verbose' }, user('Hi'), user('Bye')])
+    ).toBeUndefined();
+  });
+
+  it('should require the whole prompt when there is no new user message', () => {
+    const history = createThreadHistory();
+    history.record('T-1', first);
+
+    expect(history.unsent('T-1', first)).toBeUndefined();
+    expect(history.unsent('T-1', [...first, assistant('Hello')])).toBeUndefined();
+  });
+});
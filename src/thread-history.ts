@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import type { LanguageModelV2Prompt } from '@ai-sdk/provider';
+
+/**
+ * Remembers how much of each conversation has been sent to each Amp thread,
+ * so a call that resumes a thread only has to send the new user messages.
+ */
+export interface ThreadHistory {
+  /**
+   * Returns the user messages of the prompt that the thread has not seen, or
+   * undefined when the whole prompt must be sent: the thread is unknown, the
+   * messages it saw were edited, or there is no new user message.
+   */
+  unsent(threadId: string, prompt: LanguageModelV2Prompt): LanguageModelV2Prompt | undefined;
+
+  /**
+   * Records that the thread has seen every message of the prompt.
+   */
+  record(threadId: string, prompt: LanguageModelV2Prompt): void;
+}
+
+function fingerprint(messages: LanguageModelV2Prompt): string {
+  // Provider options on a message do not change what Amp was sent
+  const sent = messages.map(({ role, content }) => ({ role, content }));
+  return createHash('sha256').update(JSON.stringify(sent)).digest('hex');
+}
+
+/**
+ * Creates the thread history shared by the models of one provider.
+ *
+ * @returns An empty thread history
+ */
+export function createThreadHistory(): ThreadHistory {
+  const threads = new Map<string, { messageCount: number; fingerprint: string }>();
+
+  return {
+    unsent(threadId, prompt) {
+      const seen = threads.get(threadId);
+      if (
+        !seen ||
+        prompt.length <= seen.messageCount ||
+        fingerprint(prompt.slice(0, seen.messageCount)) !== seen.fingerprint
+      ) {
+        return undefined;
+      }
+
+      // Assistant messages after the seen part are the thread's own replies
+      const unsent = prompt.slice(seen.messageCount).filter((message) => message.role === 'user');
+      return unsent.length > 0 ? unsent : undefined;
+    },
+
+    record(threadId, prompt) {
+      threads.set(threadId, { messageCount: prompt.length, fingerprint: fingerprint(prompt) });
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createThreadLocks } from './thread-lock.js';
+
+// Wrap rm so a test can pause one process's removal of a lock file
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs/promises')>();
+  return { ...fs, rm: vi.fn(fs.rm) };
+});
+
+describe('thread-lock', () => {
+  describe('createThreadLocks', () => {
+    it('should queue calls on the same thread', async () => {
+      const locks = createThreadLocks();
+      const order: string[] = [];
+
+      const unlockFirst = await locks.acquire('T-1', { wait: true });
+      const second = locks.acquire('T-1', { wait: true }).then((unlock) => {
+        order.push('second');
+        return unlock;
+      });
+      await locks.acquire('T-2', { wait: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(order).toEqual([]);
+
+      order.push('first done');
+      await unlockFirst?.();
+      await (
+        await second
+      )?.();
+
+      expect(order).toEqual(['first done', 'second']);
+    });
+
+    it('should give up on a busy thread when not waiting', async () => {
+      const locks = createThreadLocks();
+
+      const unlock = await locks.acquire('T-1', { wait: true });
+      expect(await locks.acquire('T-1', { wait: false })).toBeUndefined();
+
+      await unlock?.();
+      expect(await locks.acquire('T-1', { wait: false })).toBeTypeOf('function');
+    });
+
+    it('should stop waiting when the caller aborts', async () => {
+      const locks = createThreadLocks();
+      const controller = new AbortController();
+
+      const unlock = await locks.acquire('T-1', { wait: true });
+      const waiting = locks.acquire('T-1', { wait: true, signal: controller.signal });
+      const third = locks.acquire('T-1', { wait: true });
+      controller.abort(new Error('stop'));
+
+      await expect(waiting).rejects.toThrow('stop');
+      await unlock?.();
+      expect(await third).toBeTypeOf('function');
+    });
+  });
+
+  describe('lock files', () => {
+    let lockDir: string;
+
+    beforeEach(async () => {
+      lockDir = await mkdtemp(join(tmpdir(), 'amp-locks-'));
+    });
+
+    afterEach(async () => {
+      await rm(lockDir, { recursive: true, force: true });
+    });
+
+    it('should lock a thread for other processes sharing the directory', async () => {
+      // Separate lock sets stand in for separate processes
+      const unlock = await createThreadLocks().acquire('T-1', { wait: true, lockDir });
+      const other = createThreadLocks();
+
+      expect(await readdir(lockDir)).toEqual(['T-1.lock']);
+      expect(await other.acquire('T-1', { wait: false, lockDir })).toBeUndefined();
+
+      const waiting = other.acquire('T-1', { wait: true, lockDir });
+      await unlock?.();
+      await (
+        await waiting
+      )?.();
+
+      expect(await readdir(lockDir)).toEqual([]);
+    });
+
+    it('should take over a lock file left by a process that has exited', async () => {
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      await writeFile(join(lockDir, 'T-1.lock'), JSON.stringify({ pid }));
+
+      expect(await createThreadLocks().acquire('T-1', { wait: false, lockDir })).toBeTypeOf(
+        'function'
+      );
+    });
+
+    it('should let only one process take over a lock file left by a process that has exited', async () => {
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      const path = join(lockDir, 'T-1.lock');
+      await writeFile(path, JSON.stringify({ pid }));
+
+      const fs = await vi.importActual<typeof import('node:fs/promises')>('node:fs/promises');
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        resume = resolve;
+      });
+      vi.mocked(rm)
+        .mockClear()
+        .mockImplementationOnce(async (...args) => {
+          await paused;
+          return fs.rm(...args);
+        });
+
+      // The first process finds the stale file and stalls before removing it
+      const first = createThreadLocks().acquire('T-1', { wait: false, lockDir });
+      await vi.waitFor(() => expect(rm).toHaveBeenCalledWith(path, { force: true }));
+      const second = await createThreadLocks().acquire('T-1', { wait: false, lockDir });
+      resume();
+
+      expect([await first, second].filter(Boolean)).toHaveLength(1);
+    });
+  });
+});
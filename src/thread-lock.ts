@@ -0,0 +1,238 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { waitForRetry } from './retry.js';
+
+/**
+ * How often a call waiting on another process's lock file checks it again (ms).
+ */
+export const FILE_LOCK_POLL_MS = 100;
+
+/**
+ * Releases a thread lock.
+ */
+export type ThreadUnlock = () => Promise<void>;
+
+/**
+ * Locks Amp threads so that only one call runs on a thread at a time.
+ */
+export interface ThreadLocks {
+  /**
+   * Locks a thread for one call.
+   *
+   * @param threadId - ID of the thread the call continues
+   * @param options - `wait` to wait until the thread is free instead of giving up,
+   * `lockDir` to also hold a lock file there, and the caller's abort signal
+   * @returns A function that unlocks the thread, or undefined if the thread is busy
+   * and `wait` is false
+   */
+  acquire(
+    threadId: string,
+    options: { wait: boolean; lockDir?: string; signal?: AbortSignal }
+  ): Promise<ThreadUnlock | undefined>;
+}
+
+/**
+ * Waits for an earlier call to finish, rejecting early if the signal aborts.
+ *
+ * @param previous - Settles when the earlier call has finished
+ * @param signal - Caller's abort signal
+ */
+export function waitForTurn(previous: Promise<unknown>, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    previous.then(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    });
+  });
+}
+
+function hasCode(error: unknown, code: string): boolean {
+  return (error as { code?: string }).code === code;
+}
+
+// Creates a lock file owned by this process, or returns false if it exists
+async function createLockFile(path: string): Promise<boolean> {
+  try {
+    await writeFile(
+      path,
+      JSON.stringify({ pid: process.pid, lockedAt: new Date().toISOString() }),
+      { flag: 'wx' }
+    );
+    return true;
+  } catch (error) {
+    if (!hasCode(error, 'EEXIST')) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+// Reads a lock file, or returns undefined if it is gone
+async function readLockFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if (hasCode(error, 'ENOENT')) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// A lock file whose process has exited is left over from a crash
+function isStale(contents: string): boolean {
+  let owner: { pid?: unknown };
+  try {
+    owner = JSON.parse(contents);
+  } catch {
+    // Still being written by its owner
+    return false;
+  }
+  if (typeof owner.pid !== 'number') {
+    return false;
+  }
+  try {
+    process.kill(owner.pid, 0);
+    return false;
+  } catch (error) {
+    return hasCode(error, 'ESRCH');
+  }
+}
+
+/**
+ * Removes a stale lock file while holding a `.takeover` guard file, so only one
+ * process takes over at a time. The lock file is removed only if it still holds
+ * the stale contents; otherwise another process has taken it over already.
+ *
+ * @returns Whether this process held the guard
+ */
+async function removeStaleLock(path: string, contents: string): Promise<boolean> {
+  const guard = `${path}.takeover`;
+  if (!(await createLockFile(guard))) {
+    // A guard left by a crash mid-takeover would block every later takeover
+    const owner = await readLockFile(guard);
+    if (owner !== undefined && isStale(owner)) {
+      await rm(guard, { force: true });
+    }
+    return false;
+  }
+  try {
+    if ((await readLockFile(path)) === contents) {
+      await rm(path, { force: true });
+    }
+    return true;
+  } finally {
+    await rm(guard, { force: true });
+  }
+}
+
+async function tryLockFile(path: string, removeStale = true): Promise<boolean> {
+  if (await createLockFile(path)) {
+    return true;
+  }
+  if (!removeStale) {
+    return false;
+  }
+  const contents = await readLockFile(path);
+  if (contents === undefined) {
+    // Unlocked since
+    return tryLockFile(path, false);
+  }
+  if (isStale(contents) && (await removeStaleLock(path, contents))) {
+    return tryLockFile(path, false);
+  }
+  return false;
+}
+
+/**
+ * Locks a thread across processes with a `<thread ID>.lock` file in `lockDir`.
+ * The file holds the owner's process ID; a file left by a process that has exited
+ * is taken over by one of the processes waiting for it.
+ */
+async function acquireFileLock(
+  lockDir: string,
+  threadId: string,
+  wait: boolean,
+  signal?: AbortSignal
+): Promise<ThreadUnlock | undefined> {
+  await mkdir(lockDir, { recursive: true });
+  const path = join(lockDir, `${encodeURIComponent(threadId)}.lock`);
+
+  while (!(await tryLockFile(path))) {
+    if (!wait) {
+      return undefined;
+    }
+    await waitForRetry(FILE_LOCK_POLL_MS, signal);
+  }
+  return () => rm(path, { force: true });
+}
+
+/**
+ * Creates the thread locks shared by the models of one provider.
+ * Calls on a thread are locked in memory, and with a `lockDir` also through a
+ * lock file, so processes on one machine do not run a thread at the same time.
+ *
+ * @returns The thread locks
+ */
+export function createThreadLocks(): ThreadLocks {
+  // Calls holding or waiting for each thread; `queue` settles when the last has finished
+  const threads = new Map<string, { queue: Promise<void>; calls: number }>();
+
+  return {
+    async acquire(threadId, { wait, lockDir, signal }) {
+      const thread = threads.get(threadId) ?? { queue: Promise.resolve(), calls: 0 };
+      if (thread.calls > 0 && !wait) {
+        return undefined;
+      }
+
+      const previous = thread.calls > 0 ? thread.queue : undefined;
+      let release!: () => void;
+      const done = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      thread.queue = thread.queue.then(() => done);
+      thread.calls++;
+      threads.set(threadId, thread);
+
+      const leave = () => {
+        release();
+        if (--thread.calls === 0) {
+          threads.delete(threadId);
+        }
+      };
+
+      try {
+        if (previous) {
+          await waitForTurn(previous, signal);
+        }
+        const unlockFile = lockDir
+          ? await acquireFileLock(lockDir, threadId, wait, signal)
+          : async () => {};
+        if (!unlockFile) {
+          leave();
+          return undefined;
+        }
+
+        let unlocked = false;
+        return async () => {
+          if (unlocked) return;
+          unlocked = true;
+          try {
+            await unlockFile();
+          } finally {
+            leave();
+          }
+        };
+      } catch (error) {
+        leave();
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Kind of timeout that fired.
+ * - `total`: the wall-clock limit (`timeoutMs`) was exceeded
+ * - `idle`: no Amp message arrived within `idleTimeoutMs`
+ */
+export type AmpTimeoutKind = 'total' | 'idle';
+
+/**
+ * Timers that bound a single Amp execution.
+ */
+export interface ExecutionTimeouts {
+  /**
+   * Starts or restarts the idle timer while waiting for the next Amp message.
+   */
+  startIdle(): void;
+
+  /**
+   * Pauses the idle timer once a message has arrived.
+   */
+  stopIdle(): void;
+
+  /**
+   * Clears all timers. Safe to call more than once.
+   */
+  clear(): void;
+}
+
+/**
+ * Creates the wall-clock and idle timers for an Amp execution.
+ * The wall-clock timer starts immediately; the idle timer only runs between
+ * `startIdle()` and `stopIdle()`. `onTimeout` is called at most once.
+ *
+ * @param options - Timeout configuration
+ * @returns An ExecutionTimeouts instance
+ */
+export function createExecutionTimeouts(options: {
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  onTimeout: (kind: AmpTimeoutKind, timeoutMs: number) => void;
+}): ExecutionTimeouts {
+  let fired = false;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const fire = (kind: AmpTimeoutKind, timeoutMs: number) => {
+    if (fired) return;
+    fired = true;
+    clear();
+    options.onTimeout(kind, timeoutMs);
+  };
+
+  const totalTimer =
+    options.timeoutMs !== undefined
+      ? setTimeout(() => fire('total', options.timeoutMs!), options.timeoutMs)
+      : undefined;
+
+  const stopIdle = () => {
+    if (idleTimer !== undefined) {
+      clearTimeout(idleTimer);
+      idleTimer = undefined;
+    }
+  };
+
+  function clear() {
+    if (totalTimer !== undefined) clearTimeout(totalTimer);
+    stopIdle();
+  }
+
+  return {
+    startIdle() {
+      stopIdle();
+      if (fired || options.idleTimeoutMs === undefined) return;
+      idleTimer = setTimeout(() => fire('idle', options.idleTimeoutMs!), options.idleTimeoutMs);
+    },
+    stopIdle,
+    clear,
+  };
+}
+
+/**
+ * Builds the message for a timeout error.
+ *
+ * @param kind - Kind of timeout that fired
+ * @param timeoutMs - Configured timeout in milliseconds
+ * @returns Error message
+ */
+export function formatTimeoutMessage(kind: AmpTimeoutKind, timeoutMs: number): string {
+  return kind === 'idle'
+    ? `Amp execution idle timeout: no message received for ${timeoutMs}ms`
+    : `Amp execution timeout: exceeded ${timeoutMs}ms`;
+}
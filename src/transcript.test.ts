@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StreamMessage } from '@sourcegraph/amp-sdk';
+import { createRedactor } from './redaction.js';
+import {
+  createTranscriptRecorder,
+  getTranscriptPath,
+  loadTranscript,
+  readTranscript,
+  transcriptToMessages,
+} from './transcript.js';
+import type { AmpTranscriptRecord } from './transcript.js';
+
+const logger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+const init = {
+  type: 'system',
+  subtype: 'init',
+  session_id: 'T-1',
+  cwd: '/test',
+  tools: [],
+  mcp_servers: [],
+} as StreamMessage;
+
+const assistant = (content: unknown[]) =>
+  ({
+    type: 'assistant',
+    session_id: 'T-1',
+    parent_tool_use_id: null,
+    message: {
+      id: 'msg-1',
+      type: 'message',
+      role: 'assistant',
+      model: 'test',
+      content,
+      stop_reason: null,
+      stop_sequence: null,
+    },
+  }) as StreamMessage;
+
+const toolResult = (content: string, isError = false) =>
+  ({
+    type: 'user',
+    session_id: 'T-1',
+    parent_tool_use_id: null,
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'tool-1', content, is_error: isError }],
+    },
+  }) as StreamMessage;
+
+const at = (record: Omit<AmpTranscriptRecord, 'timestamp'>) =>
+  ({ ...record, timestamp: '2026-01-01T00:00:00.000Z' }) as AmpTranscriptRecord;
+
+describe('transcript', () => {
+  let transcriptDir: string;
+
+  beforeEach(async () => {
+    transcriptDir = await mkdtemp(join(tmpdir(), 'amp-transcripts-'));
+  });
+
+  afterEach(async () => {
+    await rm(transcriptDir, { recursive: true, force: true });
+  });
+
+  describe('createTranscriptRecorder', () => {
+    it('should hold the prompt until Amp reports the session ID', async () => {
+      const recorder = createTranscriptRecorder({
+        transcriptDir,
+        redact: (text) => text,
+        logger: logger(),
+      });
+
+      recorder.recordPrompt('Hello');
+      recorder.recordMessage(init);
+      recorder.recordMetadata({ 'amp-sdk': { sessionId: 'T-1' } });
+      await recorder.flush();
+
+      const records = await readTranscript(transcriptDir, 'T-1');
+      expect(records.map((record) => record.type)).toEqual(['prompt', 'message', 'metadata']);
+      expect(records[0]).toMatchObject({ type: 'prompt', prompt: 'Hello' });
+      expect(new Date(records[0].timestamp).toString()).not.toBe('Invalid Date');
+    });
+
+    it('should mask secrets in every record', async () => {
+      const recorder = createTranscriptRecorder({
+        transcriptDir,
+        redact: (text) => text.replaceAll('s3cr3t', '[REDACTED]'),
+        logger: logger(),
+      });
+
+      recorder.recordPrompt('Use s3cr3t');
+      recorder.recordMessage(init);
+      await recorder.flush();
+
+      const content = await readFile(getTranscriptPath(transcriptDir, 'T-1'), 'utf8');
+      expect(content).not.toContain('s3cr3t');
+      expect(content).toContain('Use [REDACTED]');
+    });
+
+    it('should keep records parseable under a greedy pattern and mask escaped secrets', async () => {
+      const recorder = createTranscriptRecorder({
+        transcriptDir,
+        redact: createRedactor({ redact: [/token=\S+/, 'pa"ss\\word'] }),
+        logger: logger(),
+      });
+
+      recorder.recordPrompt('Use token=abc123 and pa"ss\\word');
+      recorder.recordMessage(init);
+      await recorder.flush();
+
+      const records = await readTranscript(transcriptDir, 'T-1');
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({ prompt: 'Use [REDACTED] and [REDACTED]' });
+      const content = await readFile(getTranscriptPath(transcriptDir, 'T-1'), 'utf8');
+      expect(content).not.toContain('abc123');
+      expect(content).not.toContain('ss\\\\word');
+    });
+
+    it('should log a failed write once without throwing', async () => {
+      const file = join(transcriptDir, 'file');
+      await writeFile(file, '');
+      const log = logger();
+      const recorder = createTranscriptRecorder({
+        transcriptDir: join(file, 'transcripts'),
+        redact: (text) => text,
+        logger: log,
+      });
+
+      recorder.recordMessage(init);
+      recorder.recordMessage(init);
+      await recorder.flush();
+
+      expect(log.warn).toHaveBeenCalledTimes(1);
+      expect(log.warn.mock.calls[0][0]).toContain('Failed to write transcript');
+    });
+
+    it('should log an unwritable directory once when Amp reports no session ID', async () => {
+      const file = join(transcriptDir, 'file');
+      await writeFile(file, '');
+      const log = logger();
+      const recorder = createTranscriptRecorder({
+        transcriptDir: join(file, 'transcripts'),
+        redact: (text) => text,
+        logger: log,
+      });
+
+      recorder.recordPrompt('Hello');
+      await expect(recorder.flush()).resolves.toBeUndefined();
+
+      expect(log.warn).toHaveBeenCalledTimes(1);
+      expect(log.warn.mock.calls[0][0]).toContain('ENOTDIR');
+    });
+  });
+
+  describe('readTranscript', () => {
+    it('should skip a partly written last line', async () => {
+      const path = getTranscriptPath(transcriptDir, 'T-1');
+      await writeFile(path, `${JSON.stringify(at({ type: 'prompt', prompt: 'Hi' }))}\n`);
+      await appendFile(path, '{"type":"mess');
+
+      expect(await readTranscript(transcriptDir, 'T-1')).toHaveLength(1);
+    });
+
+    it('should reject a malformed line before the end', async () => {
+      const path = getTranscriptPath(transcriptDir, 'T-1');
+      await writeFile(path, `not json\n${JSON.stringify(at({ type: 'prompt', prompt: 'Hi' }))}\n`);
+
+      await expect(readTranscript(transcriptDir, 'T-1')).rejects.toThrow(
+        'Invalid transcript line 1'
+      );
+    });
+  });
+
+  describe('transcriptToMessages', () => {
+    it('should rebuild user and assistant messages with provider-executed tools', () => {
+      const messages = transcriptToMessages([
+        at({ type: 'prompt', prompt: 'List files' }),
+        at({ type: 'message', message: init }),
+        at({
+          type: 'message',
+          message: assistant([
+            { type: 'thinking', thinking: 'Run ls' },
+            { type: 'text', text: 'Listing' },
+            { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { cmd: 'ls' } },
+          ]),
+        }),
+        at({ type: 'message', message: toolResult('a.ts') }),
+        at({ type: 'message', message: assistant([{ type: 'text', text: 'One file' }]) }),
+        at({ type: 'metadata', providerMetadata: { 'amp-sdk': { sessionId: 'T-1' } } }),
+        at({ type: 'prompt', prompt: 'Delete it' }),
+        at({ type: 'message', message: toolResult('denied', true) }),
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: 'List files' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'reasoning', text: 'Run ls' },
+            { type: 'text', text: 'Listing' },
+            {
+              type: 'tool-call',
+              toolCallId: 'tool-1',
+              toolName: 'Bash',
+              input: { cmd: 'ls' },
+              providerExecuted: true,
+            },
+            {
+              type: 'tool-result',
+              toolCallId: 'tool-1',
+              toolName: 'Bash',
+              output: { type: 'text', value: 'a.ts' },
+            },
+            { type: 'text', text: 'One file' },
+          ],
+        },
+        { role: 'user', content: 'Delete it' },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'tool-1',
+              toolName: 'Bash',
+              output: { type: 'error-text', value: 'denied' },
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('loadTranscript', () => {
+    it('should load what a recorder wrote', async () => {
+      const recorder = createTranscriptRecorder({
+        transcriptDir,
+        redact: (text) => text,
+        logger: logger(),
+      });
+      recorder.recordPrompt('Hello');
+      recorder.recordMessage(init);
+      recorder.recordMessage(assistant([{ type: 'text', text: 'Hi there' }]));
+      await recorder.flush();
+
+      expect(await loadTranscript(transcriptDir, 'T-1')).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: [{ type: 'text', text: 'Hi there' }] },
+      ]);
+    });
+  });
+});
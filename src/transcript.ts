@@ -0,0 +1,238 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { JSONValue } from '@ai-sdk/provider';
+import type { ModelMessage, ToolResultPart } from '@ai-sdk/provider-utils';
+import type { StreamMessage } from '@sourcegraph/amp-sdk';
+import type { Redactor } from './redaction.js';
+import type { Logger } from './types.js';
+
+/**
+ * One line of a transcript file.
+ * - `prompt`: the converted prompt sent to Amp when an execution started
+ * - `message`: a message received from Amp, as `execute()` yielded it
+ * - `metadata`: the provider metadata the call returned
+ */
+export type AmpTranscriptRecord =
+  | { type: 'prompt'; timestamp: string; prompt: string }
+  | { type: 'message'; timestamp: string; message: StreamMessage }
+  | {
+      type: 'metadata';
+      timestamp: string;
+      providerMetadata: Record<string, Record<string, JSONValue>>;
+    };
+
+/**
+ * Appends the records of one call to `<sessionId>.jsonl` in the transcript directory.
+ * Records made before Amp reports the session ID are held until it does.
+ */
+export interface TranscriptRecorder {
+  recordPrompt(prompt: string): void;
+  recordMessage(message: StreamMessage): void;
+  recordMetadata(providerMetadata: Record<string, Record<string, JSONValue>>): void;
+
+  /**
+   * Waits until every record made so far has been written.
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Returns the path of a session's transcript file.
+ *
+ * @param transcriptDir - Directory set as `transcriptDir`
+ * @param sessionId - Amp thread ID
+ * @returns Path of the JSONL file
+ */
+export function getTranscriptPath(transcriptDir: string, sessionId: string): string {
+  return join(transcriptDir, `${encodeURIComponent(sessionId)}.jsonl`);
+}
+
+/**
+ * Creates the transcript recorder for one call. Records are masked with the call's
+ * redactor. A failed write is logged once and does not fail the call.
+ *
+ * @param options - Transcript directory, redactor and logger of the call
+ * @returns The transcript recorder
+ */
+export function createTranscriptRecorder(options: {
+  transcriptDir: string;
+  redact: Redactor;
+  logger: Logger;
+}): TranscriptRecorder {
+  const { transcriptDir, redact, logger } = options;
+  let sessionId: string | undefined;
+  let pending: AmpTranscriptRecord[] = [];
+  let failed = false;
+
+  const warnOnce = (path: string) => (error: unknown) => {
+    if (!failed) {
+      failed = true;
+      logger.warn(`[amp-sdk] Failed to write transcript ${path}: ${(error as Error).message}`);
+    }
+  };
+
+  let writes: Promise<void> = mkdir(transcriptDir, { recursive: true }).then(
+    () => {},
+    warnOnce(transcriptDir)
+  );
+
+  const redactStrings = (_key: string, value: unknown) =>
+    typeof value === 'string' ? redact(value) : value;
+
+  const write = (records: AmpTranscriptRecord[]) => {
+    const path = getTranscriptPath(transcriptDir, sessionId!);
+    // Masking values before serializing keeps each line valid JSON whatever the patterns match
+    const lines = records.map((record) => `${JSON.stringify(record, redactStrings)}\n`).join('');
+    writes = writes.then(() => appendFile(path, lines, 'utf8')).catch(warnOnce(path));
+  };
+
+  const record = (entry: AmpTranscriptRecord) => {
+    if (sessionId) {
+      write([entry]);
+    } else {
+      pending.push(entry);
+    }
+  };
+
+  const timestamp = () => new Date().toISOString();
+
+  return {
+    recordPrompt(prompt) {
+      record({ type: 'prompt', timestamp: timestamp(), prompt });
+    },
+
+    recordMessage(message) {
+      if (message.session_id && message.session_id !== sessionId) {
+        sessionId = message.session_id;
+        if (pending.length > 0) {
+          write(pending);
+          pending = [];
+        }
+      }
+      record({ type: 'message', timestamp: timestamp(), message });
+    },
+
+    recordMetadata(providerMetadata) {
+      record({ type: 'metadata', timestamp: timestamp(), providerMetadata });
+    },
+
+    async flush() {
+      if (pending.length > 0) {
+        logger.debug('[amp-sdk] Amp reported no session ID, transcript records dropped');
+        pending = [];
+      }
+      await writes;
+    },
+  };
+}
+
+/**
+ * Reads the records of a session's transcript. A partly written last line,
+ * as left by a crash, is skipped.
+ *
+ * @param transcriptDir - Directory set as `transcriptDir`
+ * @param sessionId - Amp thread ID
+ * @returns The transcript records in the order they were written
+ */
+export async function readTranscript(
+  transcriptDir: string,
+  sessionId: string
+): Promise<AmpTranscriptRecord[]> {
+  const content = await readFile(getTranscriptPath(transcriptDir, sessionId), 'utf8');
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+
+  const records: AmpTranscriptRecord[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      records.push(JSON.parse(line) as AmpTranscriptRecord);
+    } catch (error) {
+      if (index < lines.length - 1) {
+        throw new Error(`Invalid transcript line ${index + 1}: ${(error as Error).message}`);
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Rebuilds a conversation from transcript records. Each prompt becomes a user message;
+ * the text, reasoning, tool calls and tool results Amp produced after it become one
+ * assistant message, with tools marked as provider-executed.
+ *
+ * @param records - Transcript records
+ * @returns AI SDK messages
+ */
+export function transcriptToMessages(records: AmpTranscriptRecord[]): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  const toolNames = new Map<string, string>();
+  let assistant: Extract<ModelMessage, { role: 'assistant' }> | undefined;
+
+  const assistantContent = () => {
+    if (!assistant) {
+      assistant = { role: 'assistant', content: [] };
+      messages.push(assistant);
+    }
+    return assistant.content as Exclude<typeof assistant.content, string>;
+  };
+
+  for (const record of records) {
+    if (record.type === 'prompt') {
+      messages.push({ role: 'user', content: record.prompt });
+      assistant = undefined;
+    } else if (record.type === 'message' && record.message.type === 'assistant') {
+      for (const block of record.message.message?.content ?? []) {
+        const thinking = block as unknown as { type: string; thinking?: string };
+        if (block.type === 'text' && block.text) {
+          assistantContent().push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+          assistantContent().push({
+            type: 'tool-call',
+            toolCallId: block.id,
+            toolName: block.name,
+            input: block.input ?? {},
+            providerExecuted: true,
+          });
+        } else if (thinking.type === 'thinking' && thinking.thinking) {
+          assistantContent().push({ type: 'reasoning', text: thinking.thinking });
+        }
+      }
+    } else if (record.type === 'message' && record.message.type === 'user') {
+      // Tool results come back from Amp as user messages
+      for (const block of record.message.message?.content ?? []) {
+        if (block.type === 'tool_result') {
+          const result: ToolResultPart = {
+            type: 'tool-result',
+            toolCallId: block.tool_use_id,
+            toolName: toolNames.get(block.tool_use_id) ?? 'unknown',
+            output: { type: block.is_error ? 'error-text' : 'text', value: block.content },
+          };
+          assistantContent().push(result);
+        }
+      }
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Loads a session's transcript as AI SDK messages, for example to rebuild a
+ * conversation after a crash.
+ *
+ * @param transcriptDir - Directory set as `transcriptDir`
+ * @param sessionId - Amp thread ID
+ * @returns AI SDK messages
+ *
+ * @example
+ * ```typescript
+ * const messages = await loadTranscript('./transcripts', 'T-abc123');
+ * await generateText({ model, messages: [...messages, { role: 'user', content: 'Go on' }] });
+ * ```
+ */
+export async function loadTranscript(
+  transcriptDir: string,
+  sessionId: string
+): Promise<ModelMessage[]> {
+  return transcriptToMessages(await readTranscript(transcriptDir, sessionId));
+}
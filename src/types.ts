@@ -1,3 +1,6 @@
+import type { AmpError } from './errors.js';
+import type { AmpSessionStore } from './session-store.js';
+
 /**
  * Logger interface for custom logging.
  * Allows consumers to provide their own logging implementation
@@ -72,6 +75,17 @@ export interface AmpSettings {
    */
   continue?: boolean;
 
+  /**
+   * How calls on one model instance relate to each other.
+   * - `'new'`: each call starts a new thread unless `continue` or `resume` is set
+   * - `'sticky'`: each call continues the thread the instance last ran (see
+   *   `model.sessionId` and `model.resetSession()`); calls on the instance run one at a time
+   *
+   * An explicit `continue` or `resume` still takes precedence for that call.
+   * @default 'new'
+   */
+  session?: 'new' | 'sticky';
+
   /**
    * Resume a specific session by ID (provider convenience alias).
    * 
@@ -88,10 +102,119 @@ export interface AmpSettings {
   resume?: string;
 
   /**
-   * Maximum number of turns for the conversation
+   * Store that maps `sessionKey` values to Amp thread IDs.
+   * Usually set once in the provider's `defaultSettings`.
+   *
+   * @see {@link createMemorySessionStore} and {@link createFileSessionStore}
+   */
+  sessionStore?: AmpSessionStore;
+
+  /**
+   * Conversation key, such as a user or chat ID, usually passed per call in
+   * `providerOptions['amp-sdk']`. The call continues the thread stored under the key
+   * in `sessionStore` and stores the thread it ran on when it finishes.
+   *
+   * An explicit `continue` or `resume` takes precedence. Requires `sessionStore`.
+   */
+  sessionKey?: string;
+
+  /**
+   * What a call that resumes a thread sends to Amp.
+   * - `'delta'`: only the user messages the thread has not seen yet; the whole
+   *   history is sent when the thread was not run by this provider or the
+   *   messages it saw were edited
+   * - `'full'`: the whole message history, as for a new thread
+   * @default 'delta'
+   */
+  resumePrompt?: 'delta' | 'full';
+
+  /**
+   * What a call does when it resumes a thread that another call is running.
+   * - `'queue'`: wait until the other call has finished
+   * - `'reject'`: fail with an `AmpThreadBusyError`
+   * - `'fork'`: start a new thread with the whole message history
+   *
+   * Calls are tracked per provider; set `threadLockDir` to include other processes.
+   * @default 'queue'
+   */
+  threadConcurrency?: 'queue' | 'reject' | 'fork';
+
+  /**
+   * Directory for `<thread ID>.lock` files, so that processes on one machine
+   * sharing the directory do not run a thread at the same time. A lock file left
+   * by a process that has exited is taken over.
+   */
+  threadLockDir?: string;
+
+  /**
+   * Maximum number of assistant turns for the conversation.
+   *
+   * Enforced by the provider: when Amp starts a turn beyond the limit, execution is
+   * stopped and the output gathered so far is returned with `finishReason: 'length'`.
+   * The number of completed turns is reported as `numTurns` in provider metadata.
    */
   maxTurns?: number;
 
+  /**
+   * Throw an `AmpMaxTurnsError` when Amp itself stops at its turn limit.
+   * By default such a stop is a normal finish with `finishReason: 'length'` that
+   * keeps the partial output and session ID, so the thread can be continued.
+   * @default false
+   */
+  throwOnMaxTurns?: boolean;
+
+  /**
+   * Cost budget for a single call in USD, across all retry attempts.
+   * Running cost is estimated from each turn's token usage with `costRates`
+   * and replaced by the cost Amp reports when the run finishes.
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Token prices used to estimate running cost for `maxCostUsd`.
+   * Unset rates fall back to the defaults in {@link AmpCostRates}.
+   */
+  costRates?: Partial<AmpCostRates>;
+
+  /**
+   * What happens when `maxCostUsd`, or the provider's `maxCostUsd`, is reached.
+   * - `'error'`: stop Amp and throw an `AmpBudgetExceededError`
+   * - `'finish'`: stop Amp and finish with `finishReason: 'length'`, keeping the output so far
+   *
+   * A call that starts after the provider budget is used up always throws.
+   * @default 'error'
+   */
+  onBudgetExceeded?: 'error' | 'finish';
+
+  /**
+   * Wall-clock limit for a single Amp execution (ms); each retry attempt gets its own.
+   * When exceeded, execution is aborted and a retryable timeout error is raised.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Maximum time to wait for the next Amp message (ms).
+   * When exceeded, execution is aborted and a retryable timeout error is raised.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Run `checkAmpHealth()` before the first call and fail fast with a typed
+   * error if the Amp CLI, credentials or configured paths are missing.
+   * The check runs once per provider for each distinct configuration.
+   * @default false
+   */
+  preflight?: boolean;
+
+  /**
+   * Retry failed executions inside the provider.
+   * Once Amp has reported a session ID, a retry continues that thread with a
+   * "continue where you left off" instruction instead of replaying the prompt,
+   * so work the agent already did is not repeated.
+   * Attempts are listed under `attempts` in provider metadata.
+   */
+  retry?: AmpRetrySettings;
+
   /**
    * Logging verbosity level
    * @default 'info'
@@ -104,7 +227,18 @@ export interface AmpSettings {
   logFile?: string;
 
   /**
-   * Custom prompt to guide the agent
+   * Directory for transcripts. Every message Amp sends is appended to
+   * `<sessionId>.jsonl` with a timestamp, together with the converted prompt
+   * and the provider metadata of the call, masked like logs.
+   * Read one back with `readTranscript()` or `loadTranscript()`.
+   */
+  transcriptDir?: string;
+
+  /**
+   * Custom prompt to guide the agent.
+   *
+   * Sent as a standing system instruction ahead of the converted transcript on every call.
+   * System messages from the AI SDK prompt follow it and can refine it per call.
    */
   prompt?: string;
 
@@ -128,6 +262,13 @@ export interface AmpSettings {
    */
   permissions?: Permission[];
 
+  /**
+   * Surface thinking content from the underlying model as AI SDK reasoning parts.
+   * Set to `false` to drop reasoning from both `doGenerate` and `doStream` output.
+   * @default true
+   */
+  includeReasoning?: boolean;
+
   /**
    * Enable verbose logging for debugging
    * @default false
@@ -157,6 +298,25 @@ export interface AmpSettings {
    */
   logger?: Logger | false;
 
+  /**
+   * Extra values to mask in logs, warnings, error messages and error metadata.
+   * Strings match literally. Values from `env`, `mcpConfig[*].env` and
+   * `AMP_API_KEY` are always masked.
+   *
+   * @example
+   * ```typescript
+   * const settings = { redact: [/ghp_[A-Za-z0-9]+/, 'internal.example.com'] };
+   * ```
+   */
+  redact?: Array<string | RegExp>;
+
+  /**
+   * Include an excerpt of the prompt in error metadata.
+   * Set to `false` to leave prompts out of errors entirely.
+   * @default true
+   */
+  includePromptInErrors?: boolean;
+
   /**
    * Delay between operations (ms)
    */
@@ -173,6 +333,76 @@ export interface AmpSettings {
   maxDiscoveryDepth?: number;
 }
 
+/**
+ * Token prices in USD per million tokens, used to estimate running cost.
+ */
+export interface AmpCostRates {
+  /**
+   * Uncached input tokens
+   * @default 3
+   */
+  inputPerMillionTokens: number;
+
+  /**
+   * Output tokens
+   * @default 15
+   */
+  outputPerMillionTokens: number;
+
+  /**
+   * Input tokens written to the prompt cache
+   * @default 3.75
+   */
+  cacheWritePerMillionTokens: number;
+
+  /**
+   * Input tokens read from the prompt cache
+   * @default 0.3
+   */
+  cacheReadPerMillionTokens: number;
+}
+
+/**
+ * Retry policy for failed Amp executions
+ */
+export interface AmpRetrySettings {
+  /**
+   * Total number of executions, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry (ms)
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Multiplier applied to the delay after each failed attempt
+   * @default 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Upper bound for the delay between attempts (ms)
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Decides whether an error is worth another attempt.
+   * Aborts are never retried.
+   * @default error => error.isRetryable
+   */
+  isRetryable?: (error: AmpError) => boolean;
+
+  /**
+   * Instruction sent when a retry resumes the interrupted thread
+   */
+  continuePrompt?: string;
+}
+
 /**
  * MCP server configuration
  */
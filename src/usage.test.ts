@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createUsageCollector, mapAmpUsage } from './usage.js';
+
+describe('usage', () => {
+  describe('mapAmpUsage', () => {
+    it('should count cache tokens as input and report cache reads separately', () => {
+      expect(
+        mapAmpUsage({
+          input_tokens: 10,
+          cache_creation_input_tokens: 20,
+          cache_read_input_tokens: 30,
+          output_tokens: 5,
+        })
+      ).toEqual({
+        inputTokens: 60,
+        outputTokens: 5,
+        totalTokens: 65,
+        cachedInputTokens: 30,
+      });
+    });
+
+    it('should report reasoning tokens when Amp includes them', () => {
+      expect(mapAmpUsage({ input_tokens: 1, output_tokens: 8, reasoning_tokens: 6 })).toEqual({
+        inputTokens: 1,
+        outputTokens: 8,
+        totalTokens: 9,
+        reasoningTokens: 6,
+      });
+    });
+  });
+
+  describe('createUsageCollector', () => {
+    it('should start with zero usage', () => {
+      const collector = createUsageCollector();
+
+      expect(collector.usage()).toEqual({ inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+      expect(collector.turns()).toEqual([]);
+    });
+
+    it('should sum the turns, counting a repeated message ID once', () => {
+      const collector = createUsageCollector();
+
+      collector.recordTurn('msg-1', { input_tokens: 5, output_tokens: 1 });
+      collector.recordTurn('msg-1', {
+        input_tokens: 10,
+        cache_read_input_tokens: 4,
+        output_tokens: 2,
+      });
+      collector.recordTurn('msg-2', {
+        input_tokens: 20,
+        cache_creation_input_tokens: 6,
+        output_tokens: 3,
+      });
+
+      expect(collector.usage()).toEqual({
+        inputTokens: 40,
+        outputTokens: 5,
+        totalTokens: 45,
+        cachedInputTokens: 4,
+      });
+      expect(collector.turns()).toEqual([
+        { messageId: 'msg-1', inputTokens: 14, outputTokens: 2, cachedInputTokens: 4 },
+        { messageId: 'msg-2', inputTokens: 26, outputTokens: 3, cacheCreationInputTokens: 6 },
+      ]);
+    });
+
+    it("should prefer the result's usage over the turns", () => {
+      const collector = createUsageCollector();
+
+      collector.recordTurn('msg-1', { input_tokens: 10, output_tokens: 2 });
+      collector.recordResult({ input_tokens: 100, output_tokens: 20 });
+
+      expect(collector.usage()).toEqual({ inputTokens: 100, outputTokens: 20, totalTokens: 120 });
+      expect(collector.turns()).toHaveLength(1);
+    });
+  });
+});
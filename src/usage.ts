@@ -0,0 +1,155 @@
+import type { LanguageModelV2Usage } from '@ai-sdk/provider';
+import type { Usage } from '@sourcegraph/amp-sdk';
+
+/**
+ * Token usage as reported by the Amp CLI.
+ * `reasoning_tokens` is not in the SDK types and only present when the model reports it.
+ */
+export type AmpUsage = Usage & { reasoning_tokens?: number };
+
+/**
+ * Usage of one assistant turn, as listed under `turnUsage` in provider metadata.
+ */
+export interface AmpTurnUsage {
+  /**
+   * ID of the assistant message
+   */
+  messageId: string;
+
+  /**
+   * All input tokens, including cached ones
+   */
+  inputTokens: number;
+
+  outputTokens: number;
+
+  /**
+   * Input tokens read from the prompt cache
+   */
+  cachedInputTokens?: number;
+
+  /**
+   * Input tokens written to the prompt cache
+   */
+  cacheCreationInputTokens?: number;
+
+  reasoningTokens?: number;
+}
+
+/**
+ * Maps Amp token usage to AI SDK usage.
+ * `inputTokens` counts every input token, cache reads and writes included;
+ * `cachedInputTokens` is the part read from the prompt cache.
+ *
+ * @param usage - Usage reported by Amp
+ * @returns AI SDK usage
+ */
+export function mapAmpUsage(usage: AmpUsage): LanguageModelV2Usage {
+  const inputTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0);
+  const outputTokens = usage.output_tokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    ...(usage.cache_read_input_tokens !== undefined && {
+      cachedInputTokens: usage.cache_read_input_tokens,
+    }),
+    ...(typeof usage.reasoning_tokens === 'number' && {
+      reasoningTokens: usage.reasoning_tokens,
+    }),
+  };
+}
+
+function mapTurnUsage(messageId: string, usage: AmpUsage): AmpTurnUsage {
+  const { inputTokens, outputTokens, cachedInputTokens, reasoningTokens } = mapAmpUsage(usage);
+  return {
+    messageId,
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    ...(cachedInputTokens !== undefined && { cachedInputTokens }),
+    ...(usage.cache_creation_input_tokens !== undefined && {
+      cacheCreationInputTokens: usage.cache_creation_input_tokens,
+    }),
+    ...(reasoningTokens !== undefined && { reasoningTokens }),
+  };
+}
+
+/**
+ * Collects usage over a call from each assistant turn and the result message.
+ */
+export interface UsageCollector {
+  /**
+   * Records a turn's usage. A message ID seen before replaces that turn's usage.
+   */
+  recordTurn(messageId: string, usage: AmpUsage): void;
+
+  /**
+   * Records the usage reported on the result message.
+   */
+  recordResult(usage: AmpUsage): void;
+
+  /**
+   * Usage of the call: the result's usage if reported, otherwise the sum of the turns.
+   */
+  usage(): LanguageModelV2Usage;
+
+  /**
+   * Usage of each turn, in the order the turns arrived.
+   */
+  turns(): AmpTurnUsage[];
+}
+
+/**
+ * Creates the usage collector for one call.
+ *
+ * @returns A usage collector
+ */
+export function createUsageCollector(): UsageCollector {
+  const turns = new Map<string, AmpTurnUsage>();
+  let resultUsage: LanguageModelV2Usage | undefined;
+
+  return {
+    recordTurn(messageId, usage) {
+      turns.set(messageId, mapTurnUsage(messageId, usage));
+    },
+
+    recordResult(usage) {
+      resultUsage = mapAmpUsage(usage);
+    },
+
+    usage() {
+      if (resultUsage) {
+        return resultUsage;
+      }
+
+      let inputTokens = 0;
+      let outputTokens = 0;
+      let cachedInputTokens: number | undefined;
+      let reasoningTokens: number | undefined;
+      for (const turn of turns.values()) {
+        inputTokens += turn.inputTokens;
+        outputTokens += turn.outputTokens;
+        if (turn.cachedInputTokens !== undefined) {
+          cachedInputTokens = (cachedInputTokens ?? 0) + turn.cachedInputTokens;
+        }
+        if (turn.reasoningTokens !== undefined) {
+          reasoningTokens = (reasoningTokens ?? 0) + turn.reasoningTokens;
+        }
+      }
+      return {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        ...(cachedInputTokens !== undefined && { cachedInputTokens }),
+        ...(reasoningTokens !== undefined && { reasoningTokens }),
+      };
+    },
+
+    turns() {
+      return [...turns.values()];
+    },
+  };
+}
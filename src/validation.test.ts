@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { validateSettings } from './validation.js';
+import { createMemorySessionStore } from './session-store.js';
+import type { AmpSessionStore } from './session-store.js';
 
 describe('validateSettings', () => {
   describe('resume validation', () => {
@@ -258,4 +260,215 @@ describe('validateSettings', () => {
       expect(result.errors).toHaveLength(0);
     });
   });
+
+  describe('includeReasoning validation', () => {
+    it('should error when includeReasoning is not a boolean', () => {
+      // @ts-expect-error - Testing runtime validation
+      const result = validateSettings({ includeReasoning: 'yes' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('includeReasoning must be a boolean');
+    });
+
+    it('should pass when includeReasoning is false', () => {
+      const result = validateSettings({ includeReasoning: false });
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+  });
+
+  describe('prompt validation', () => {
+    it('should error when prompt is not a string', () => {
+      // @ts-expect-error - Testing runtime validation
+      const result = validateSettings({ prompt: 42 });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('prompt must be a string');
+    });
+
+    it('should pass when prompt is a string', () => {
+      const result = validateSettings({ prompt: 'Use British spelling.' });
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+  });
+
+  describe('timeout validation', () => {
+    it('should accept positive timeouts', () => {
+      const result = validateSettings({ timeoutMs: 60_000, idleTimeoutMs: 5_000 });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should error when timeoutMs is not positive', () => {
+      const result = validateSettings({ timeoutMs: 0 });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('timeoutMs must be a positive number');
+    });
+
+    it('should error when idleTimeoutMs is not a number', () => {
+      const result = validateSettings({ idleTimeoutMs: '1000' as unknown as number });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('idleTimeoutMs must be a positive number');
+    });
+  });
+
+  describe('throwOnMaxTurns validation', () => {
+    it('should error when throwOnMaxTurns is not a boolean', () => {
+      const result = validateSettings({ throwOnMaxTurns: 'yes' as unknown as boolean });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('throwOnMaxTurns must be a boolean');
+    });
+  });
+
+  describe('retry validation', () => {
+    it('should accept a valid retry policy', () => {
+      const result = validateSettings({
+        retry: { maxAttempts: 3, initialDelayMs: 0, backoffFactor: 2, isRetryable: () => true },
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject invalid retry values', () => {
+      const result = validateSettings({
+        retry: { maxAttempts: 0, initialDelayMs: -1, backoffFactor: 0.5, continuePrompt: ' ' },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'retry.maxAttempts must be a positive integer',
+        'retry.initialDelayMs must be a non-negative number',
+        'retry.backoffFactor must be a number of at least 1',
+        'retry.continuePrompt must be a non-empty string',
+      ]);
+    });
+  });
+
+  describe('preflight validation', () => {
+    it('should error when preflight is not a boolean', () => {
+      const result = validateSettings({ preflight: 1 as unknown as boolean });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('preflight must be a boolean');
+    });
+  });
+
+
+  describe('redaction validation', () => {
+    it('should accept strings and regular expressions in redact', () => {
+      const result = validateSettings({ redact: ['secret', /tok_\w+/], includePromptInErrors: false });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should error when redact contains other values', () => {
+      const result = validateSettings({ redact: [42] as unknown as string[] });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('redact must be an array of strings or regular expressions');
+    });
+
+    it('should error when includePromptInErrors is not a boolean', () => {
+      const result = validateSettings({ includePromptInErrors: 'no' as unknown as boolean });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('includePromptInErrors must be a boolean');
+    });
+  });
+
+
+  describe('cost budget validation', () => {
+    it('should accept a budget with custom rates', () => {
+      const result = validateSettings({
+        maxCostUsd: 2.5,
+        costRates: { outputPerMillionTokens: 10 },
+        onBudgetExceeded: 'finish',
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject invalid budget settings', () => {
+      const result = validateSettings({
+        maxCostUsd: 0,
+        costRates: { inputPerMillionTokens: -1 },
+        onBudgetExceeded: 'warn' as unknown as 'error',
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'maxCostUsd must be a positive number',
+        'costRates.inputPerMillionTokens must be a non-negative number',
+        "onBudgetExceeded must be 'error' or 'finish'",
+      ]);
+    });
+  });
+
+  describe('session mode validation', () => {
+    it('should accept sticky sessions', () => {
+      expect(validateSettings({ session: 'sticky' }).valid).toBe(true);
+    });
+
+    it('should reject unknown session modes', () => {
+      const result = validateSettings({ session: 'shared' as unknown as 'sticky' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("session must be 'new' or 'sticky'");
+    });
+  });
+
+  describe('session store validation', () => {
+    it('should accept a session store and key', () => {
+      const result = validateSettings({
+        sessionStore: createMemorySessionStore(),
+        sessionKey: 'chat-1',
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject an incomplete store and an empty key', () => {
+      const result = validateSettings({
+        sessionStore: { get: async () => undefined } as unknown as AmpSessionStore,
+        sessionKey: ' ',
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'sessionStore must have get, set and delete methods',
+        'sessionKey must be a non-empty string',
+      ]);
+    });
+  });
+
+  describe('resumePrompt validation', () => {
+    it('should accept delta and full', () => {
+      expect(validateSettings({ resumePrompt: 'delta' }).valid).toBe(true);
+      expect(validateSettings({ resumePrompt: 'full' }).valid).toBe(true);
+    });
+
+    it('should reject other modes', () => {
+      const result = validateSettings({ resumePrompt: 'none' as unknown as 'full' });
+      expect(result.errors).toContain("resumePrompt must be 'delta' or 'full'");
+    });
+  });
+
+  describe('thread concurrency validation', () => {
+    it('should accept each mode with a lock directory', () => {
+      for (const threadConcurrency of ['queue', 'reject', 'fork'] as const) {
+        expect(validateSettings({ threadConcurrency, threadLockDir: '/tmp/amp-locks' }).valid).toBe(
+          true
+        );
+      }
+    });
+
+    it('should reject an unknown mode and an empty lock directory', () => {
+      const result = validateSettings({
+        threadConcurrency: 'wait' as unknown as 'queue',
+        threadLockDir: '',
+      });
+      expect(result.errors).toEqual([
+        "threadConcurrency must be 'queue', 'reject' or 'fork'",
+        'threadLockDir must be a non-empty string',
+      ]);
+    });
+  });
+
+  describe('transcriptDir validation', () => {
+    it('should accept a directory', () => {
+      expect(validateSettings({ transcriptDir: './transcripts' }).valid).toBe(true);
+    });
+
+    it('should reject an empty directory', () => {
+      const result = validateSettings({ transcriptDir: ' ' });
+      expect(result.errors).toContain('transcriptDir must be a non-empty string');
+    });
+  });
 });
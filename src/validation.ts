@@ -37,6 +37,52 @@ export function validateSettings(settings: AmpSettings): ValidationResult {
     }
   }
 
+  // Validate timeouts
+  for (const key of ['timeoutMs', 'idleTimeoutMs'] as const) {
+    const value = settings[key];
+    if (value !== undefined) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        errors.push(`${key} must be a positive number`);
+      }
+    }
+  }
+
+  // Validate retry policy
+  if (settings.retry !== undefined) {
+    const retry = settings.retry;
+    if (typeof retry !== 'object' || retry === null) {
+      errors.push('retry must be an object');
+    } else {
+      if (
+        retry.maxAttempts !== undefined &&
+        (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)
+      ) {
+        errors.push('retry.maxAttempts must be a positive integer');
+      }
+      for (const key of ['initialDelayMs', 'maxDelayMs'] as const) {
+        const value = retry[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          errors.push(`retry.${key} must be a non-negative number`);
+        }
+      }
+      if (
+        retry.backoffFactor !== undefined &&
+        (typeof retry.backoffFactor !== 'number' || !(retry.backoffFactor >= 1))
+      ) {
+        errors.push('retry.backoffFactor must be a number of at least 1');
+      }
+      if (retry.isRetryable !== undefined && typeof retry.isRetryable !== 'function') {
+        errors.push('retry.isRetryable must be a function');
+      }
+      if (
+        retry.continuePrompt !== undefined &&
+        (typeof retry.continuePrompt !== 'string' || retry.continuePrompt.trim() === '')
+      ) {
+        errors.push('retry.continuePrompt must be a non-empty string');
+      }
+    }
+  }
+
   // Validate cwd
   if (settings.cwd !== undefined) {
     if (typeof settings.cwd !== 'string' || settings.cwd.trim() === '') {
@@ -44,6 +90,13 @@ export function validateSettings(settings: AmpSettings): ValidationResult {
     }
   }
 
+  // Validate prompt
+  if (settings.prompt !== undefined) {
+    if (typeof settings.prompt !== 'string') {
+      errors.push('prompt must be a string');
+    }
+  }
+
   // Validate logLevel
   if (settings.logLevel !== undefined) {
     const validLevels = ['debug', 'info', 'warn', 'error', 'audit'];
@@ -66,6 +119,53 @@ export function validateSettings(settings: AmpSettings): ValidationResult {
     }
   }
 
+  // Validate session mode
+  if (settings.session !== undefined) {
+    if (!['new', 'sticky'].includes(settings.session)) {
+      errors.push("session must be 'new' or 'sticky'");
+    }
+  }
+
+  // Validate sessionStore
+  if (settings.sessionStore !== undefined) {
+    const store = settings.sessionStore as unknown as Record<string, unknown> | null;
+    if (
+      typeof store !== 'object' ||
+      store === null ||
+      !['get', 'set', 'delete'].every((method) => typeof store[method] === 'function')
+    ) {
+      errors.push('sessionStore must have get, set and delete methods');
+    }
+  }
+
+  // Validate sessionKey
+  if (settings.sessionKey !== undefined) {
+    if (typeof settings.sessionKey !== 'string' || settings.sessionKey.trim() === '') {
+      errors.push('sessionKey must be a non-empty string');
+    }
+  }
+
+  // Validate resumePrompt
+  if (settings.resumePrompt !== undefined) {
+    if (!['delta', 'full'].includes(settings.resumePrompt)) {
+      errors.push("resumePrompt must be 'delta' or 'full'");
+    }
+  }
+
+  // Validate threadConcurrency
+  if (settings.threadConcurrency !== undefined) {
+    if (!['queue', 'reject', 'fork'].includes(settings.threadConcurrency)) {
+      errors.push("threadConcurrency must be 'queue', 'reject' or 'fork'");
+    }
+  }
+
+  // Validate threadLockDir
+  if (settings.threadLockDir !== undefined) {
+    if (typeof settings.threadLockDir !== 'string' || settings.threadLockDir.trim() === '') {
+      errors.push('threadLockDir must be a non-empty string');
+    }
+  }
+
   // Warn if both continue and resume are set (resume takes precedence)
   // Only warn if both are valid (avoid warning when resume is invalid)
   if (
@@ -83,6 +183,78 @@ export function validateSettings(settings: AmpSettings): ValidationResult {
     }
   }
 
+  // Validate includeReasoning
+  if (settings.includeReasoning !== undefined) {
+    if (typeof settings.includeReasoning !== 'boolean') {
+      errors.push('includeReasoning must be a boolean');
+    }
+  }
+
+  // Validate preflight
+  if (settings.preflight !== undefined) {
+    if (typeof settings.preflight !== 'boolean') {
+      errors.push('preflight must be a boolean');
+    }
+  }
+
+  // Validate throwOnMaxTurns
+  if (settings.throwOnMaxTurns !== undefined) {
+    if (typeof settings.throwOnMaxTurns !== 'boolean') {
+      errors.push('throwOnMaxTurns must be a boolean');
+    }
+  }
+
+  // Validate maxCostUsd
+  if (settings.maxCostUsd !== undefined) {
+    if (
+      typeof settings.maxCostUsd !== 'number' ||
+      !Number.isFinite(settings.maxCostUsd) ||
+      settings.maxCostUsd <= 0
+    ) {
+      errors.push('maxCostUsd must be a positive number');
+    }
+  }
+
+  // Validate costRates
+  if (settings.costRates !== undefined) {
+    for (const [name, rate] of Object.entries(settings.costRates)) {
+      if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+        errors.push(`costRates.${name} must be a non-negative number`);
+      }
+    }
+  }
+
+  // Validate onBudgetExceeded
+  if (settings.onBudgetExceeded !== undefined) {
+    if (!['error', 'finish'].includes(settings.onBudgetExceeded)) {
+      errors.push("onBudgetExceeded must be 'error' or 'finish'");
+    }
+  }
+
+  // Validate redact
+  if (settings.redact !== undefined) {
+    if (
+      !Array.isArray(settings.redact) ||
+      !settings.redact.every((pattern) => typeof pattern === 'string' || pattern instanceof RegExp)
+    ) {
+      errors.push('redact must be an array of strings or regular expressions');
+    }
+  }
+
+  // Validate transcriptDir
+  if (settings.transcriptDir !== undefined) {
+    if (typeof settings.transcriptDir !== 'string' || settings.transcriptDir.trim() === '') {
+      errors.push('transcriptDir must be a non-empty string');
+    }
+  }
+
+  // Validate includePromptInErrors
+  if (settings.includePromptInErrors !== undefined) {
+    if (typeof settings.includePromptInErrors !== 'boolean') {
+      errors.push('includePromptInErrors must be a boolean');
+    }
+  }
+
   // Warn about verbose with logger: false
   if (settings.verbose && settings.logger === false) {
     warnings.push('verbose is enabled but logger is disabled, no logs will be output');
@@ -9,5 +9,7 @@ export default defineConfig({
   splitting: false,
   treeshake: true,
   minify: false,
+  // Provides import.meta.url in the CJS build, used to locate the Amp CLI
+  shims: true,
   external: ['@ai-sdk/provider', '@ai-sdk/provider-utils', '@sourcegraph/amp-sdk'],
 });